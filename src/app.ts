@@ -1,38 +1,40 @@
 import cors from "cors";
 import express from "express";
 import helmet from "helmet";
-import morgan from "morgan";
 import apiRouter from "./routes";
+import healthRouter from "./routes/health";
+import metricsRouter from "./routes/metrics";
 import webhookRouter from "./routes/webhooks";
 import { env } from "./config";
+import { errorHandler, notFoundHandler } from "./middleware/errors";
+import { assignRequestId } from "./middleware/requestId";
+import { logRequests } from "./middleware/requestLogging";
 
 const app = express();
 
+if (env.trustProxy !== undefined) {
+  app.set("trust proxy", env.trustProxy);
+}
+
+app.use(assignRequestId);
+app.use(logRequests);
 app.use(
   cors({
     origin: env.frontendUrl,
-    credentials: true
+    credentials: true,
+    exposedHeaders: ["X-Request-Id"]
   })
 );
 app.use(helmet());
-app.use(morgan("dev"));
-
-app.get("/health", (_req, res) => {
-  res.json({ status: "ok" });
-});
 
+app.use("/health", healthRouter);
+app.use("/metrics", metricsRouter);
 app.use("/api/webhooks", webhookRouter);
 app.use(express.json());
 app.use("/api", apiRouter);
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-  // eslint-disable-next-line no-console
-  console.error(err);
-  res.status(500).json({
-    error: err.message ?? "Internal server error"
-  });
-});
+app.use(notFoundHandler);
+app.use(errorHandler);
 
 export default app;
 
@@ -0,0 +1,52 @@
+import { env } from "./env";
+import type { SubscriptionBillingCadence, SubscriptionDurationYears, SubscriptionPlanConfig } from "./pricing";
+
+export type BuyingGroupPlanKey = "one_time" | `${SubscriptionBillingCadence}_${SubscriptionDurationYears}`;
+
+export interface BuyingGroupConfig {
+  name: string;
+  /** Discount off the list price, for plans without a group price ID. */
+  discountPercent?: number;
+  priceIds?: Partial<Record<BuyingGroupPlanKey, string>>;
+}
+
+const BUYING_GROUPS = env.buyingGroups as BuyingGroupConfig[];
+
+const normalizeGroupName = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Looks up a buying group by name, ignoring case and surrounding whitespace.
+ */
+export const findBuyingGroup = (name: string | null | undefined): BuyingGroupConfig | null => {
+  if (!name?.trim()) {
+    return null;
+  }
+  const normalized = normalizeGroupName(name);
+  return BUYING_GROUPS.find((group) => normalizeGroupName(group.name) === normalized) ?? null;
+};
+
+/**
+ * Buying group whose contract pricing applies to a clinic, or null for clinics outside a known group.
+ */
+export const getBuyingGroupForClinic = (
+  buyingGroupMember: boolean,
+  buyingGroupName: string | null | undefined,
+): BuyingGroupConfig | null => (buyingGroupMember ? findBuyingGroup(buyingGroupName) : null);
+
+/**
+ * Checks a submitted buying group. Members must name a configured group; any name is accepted
+ * while no buying groups are configured.
+ */
+export const isValidBuyingGroup = (buyingGroupMember: boolean, buyingGroupName: string | null | undefined): boolean =>
+  !buyingGroupMember || BUYING_GROUPS.length === 0 || findBuyingGroup(buyingGroupName) !== null;
+
+/**
+ * Stripe price ID a buying group has for a subscription plan, or for the one-time product when no plan is given.
+ */
+export const getBuyingGroupPriceId = (
+  group: BuyingGroupConfig | null,
+  plan?: SubscriptionPlanConfig,
+): string | undefined => {
+  const key: BuyingGroupPlanKey = plan ? `${plan.cadence}_${plan.durationYears}` : "one_time";
+  return group?.priceIds?.[key];
+};
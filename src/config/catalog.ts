@@ -0,0 +1,36 @@
+import { env } from "./env";
+import { ONE_TIME_PRODUCT_ID } from "./pricing";
+
+export interface CatalogProduct {
+  productId: string;
+  /** Price billed for the product; the product's default price when not set. */
+  priceId?: string;
+  weightGrams: number;
+  maxQuantity?: number;
+}
+
+export const MAX_CART_LINES = 10;
+
+const configuredProducts = env.catalogProducts as CatalogProduct[];
+
+/**
+ * Products that can be ordered as one-time purchases. The one-time product is always orderable.
+ */
+export const CATALOG_PRODUCTS: CatalogProduct[] = configuredProducts.some(
+  (product) => product.productId === ONE_TIME_PRODUCT_ID,
+)
+  ? configuredProducts
+  : [{ productId: ONE_TIME_PRODUCT_ID, weightGrams: 0 }, ...configuredProducts];
+
+/**
+ * Finds the catalog entry for an ordered product or price. Returns null for anything not in the catalog.
+ */
+export const findCatalogProduct = (item: { productId?: string; priceId?: string }): CatalogProduct | null => {
+  const product = CATALOG_PRODUCTS.find((entry) =>
+    item.priceId ? entry.priceId === item.priceId : entry.productId === item.productId,
+  );
+  if (!product || (item.productId && item.productId !== product.productId)) {
+    return null;
+  }
+  return product;
+};
@@ -0,0 +1,40 @@
+import { ConfigurationError } from "../lib/errors";
+import { env } from "./env";
+
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  US: "usd",
+  CA: "cad",
+  GB: "gbp",
+  IE: "eur",
+  FR: "eur",
+  DE: "eur",
+  ES: "eur",
+  IT: "eur",
+  AU: "aud",
+  NZ: "nzd",
+};
+
+export const SUPPORTED_CURRENCIES = new Set([env.currency, ...env.supportedCurrencies]);
+
+/**
+ * The currency a clinic is billed in. Clinics in countries whose currency isn't enabled
+ * in `SUPPORTED_CURRENCIES` are billed in the base currency.
+ */
+export const getCurrencyForCountry = (country: string | null | undefined): string => {
+  const currency = country ? COUNTRY_CURRENCIES[country.toUpperCase()] : undefined;
+  return currency && SUPPORTED_CURRENCIES.has(currency) ? currency : env.currency;
+};
+
+/**
+ * Flat shipping cost in the smallest unit of the given currency. The base currency uses `SHIPPING_COST`.
+ */
+export const getShippingCostCents = (currency: string): number => {
+  if (currency === env.currency) {
+    return env.shippingCost;
+  }
+  const shippingCost = env.shippingCosts[currency];
+  if (shippingCost === undefined) {
+    throw new ConfigurationError(`Missing shipping cost for currency ${currency}`);
+  }
+  return shippingCost;
+};
@@ -3,24 +3,121 @@ import { z } from "zod";
 
 dotenv.config();
 
+const buyingGroupsSchema = z.array(
+  z.object({
+    name: z.string().trim().min(1),
+    discountPercent: z.number().positive().max(100).optional(),
+    priceIds: z
+      .record(
+        z.enum(["one_time", "annual_1", "annual_2", "annual_3", "monthly_1", "monthly_2", "monthly_3"]),
+        z.string().min(1),
+      )
+      .optional(),
+  }),
+);
+
+const catalogProductsSchema = z.array(
+  z.object({
+    productId: z.string().min(1),
+    /** Price billed for the product; the product's default price when not set. */
+    priceId: z.string().min(1).optional(),
+    weightGrams: z.number().int().nonnegative().default(0),
+    maxQuantity: z.number().int().positive().optional(),
+  }),
+);
+
+const shippingRatesSchema = z.array(
+  z.object({
+    id: z.string().trim().min(1),
+    displayName: z.string().trim().min(1).optional(),
+    serviceLevel: z.enum(["standard", "expedited"]).default("standard"),
+    /** Destination zone; a rate without countries applies to every destination. */
+    countries: z.array(z.string().length(2)).optional(),
+    states: z.array(z.string().min(1)).optional(),
+    postalCodePrefixes: z.array(z.string().min(1)).optional(),
+    /** Amount in the smallest unit of each currency the rate can be charged in. */
+    amounts: z.record(z.string(), z.number().int().nonnegative()),
+    /** Order subtotal, after discounts, from which shipping is free, per currency. */
+    freeShippingThresholds: z.record(z.string(), z.number().int().nonnegative()).optional(),
+    deliveryDays: z.object({ min: z.number().int().nonnegative(), max: z.number().int().nonnegative() }).optional(),
+  }),
+);
+
+/**
+ * Parses an optional env value holding JSON, validated with the given schema. Unset values parse as an empty list.
+ */
+const jsonListEnv = <T extends z.ZodTypeAny>(schema: T, message: string) =>
+  z
+    .string()
+    .optional()
+    .transform((value, ctx): z.infer<T> => {
+      if (!value) {
+        return [];
+      }
+      try {
+        return schema.parse(JSON.parse(value));
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+        return z.NEVER;
+      }
+    });
+
 const envSchema = z.object({
   PORT: z.coerce.number().default(5000),
   STRIPE_SECRET_KEY: z.string().min(1, "STRIPE_SECRET_KEY is required"),
   STRIPE_WEBHOOK_SECRET: z.string().optional(),
   FRONTEND_URL: z.string().url().default("http://localhost:5173"),
+  LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
+  AUTH_SESSION_SECRET: z.string().min(32, "AUTH_SESSION_SECRET must be at least 32 characters"),
+  AUTH_SESSION_TTL_HOURS: z.coerce.number().positive().default(12),
+  AUTH_LOGIN_CODE_TTL_MINUTES: z.coerce.number().positive().default(10),
+  AUTH_LOGIN_CODE_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  AUTH_EMAIL_WEBHOOK_URL: z.string().url().optional(),
+  AUTH_LOGIN_CODE_MAX_SENDS_PER_HOUR: z.coerce.number().int().nonnegative().default(5),
+  AUTH_LOGIN_MAX_FAILED_VERIFICATIONS_PER_HOUR: z.coerce.number().int().nonnegative().default(10),
+  AUTH_MAX_REQUESTS_PER_IP_PER_MINUTE: z.coerce.number().int().nonnegative().default(30),
+  TRUST_PROXY: z.string().optional(),
+  ADMIN_API_KEYS: z.string().optional(),
+  METRICS_TOKEN: z.string().min(16, "METRICS_TOKEN must be at least 16 characters").optional(),
   SHIPPING_COST: z.coerce.number().int().nonnegative().default(0),
   CURRENCY: z.string().default("usd"),
+  SUPPORTED_CURRENCIES: z.string().optional(),
+  PAYMENT_METHOD_TYPES: z.string().optional(),
+  NET_TERMS_DAYS_UNTIL_DUE: z.coerce.number().int().positive().default(30),
+  SHIPPING_COSTS: z.string().optional(),
   CREDIT_CARD_FEE_PERCENT: z.coerce.number().nonnegative().default(3),
+  SURCHARGE_UNKNOWN_FUNDING: z.enum(["surcharge", "exempt"]).default("surcharge"),
+  SURCHARGE_EXCLUDED_BRANDS: z.string().optional(),
+  SURCHARGE_MERCHANT_COST_PERCENT: z.coerce.number().nonnegative().optional(),
+  TAX_MODE: z.enum(["none", "rates", "automatic"]).default("none"),
+  TAX_RATES: z.string().optional(),
   ONE_TIME_BASE_AMOUNT: z.coerce.number().int().nonnegative().default(5000),
   COUPON_CODES: z.string().optional(),
+  BUYING_GROUPS: jsonListEnv(buyingGroupsSchema, "BUYING_GROUPS must be a JSON array of buying groups"),
+  CATALOG_PRODUCTS: jsonListEnv(catalogProductsSchema, "CATALOG_PRODUCTS must be a JSON array of products"),
+  SHIPPING_RATES: jsonListEnv(shippingRatesSchema, "SHIPPING_RATES must be a JSON array of shipping rates"),
+  SHIPPING_WEIGHT_TIERS: z.string().optional(),
+  SHIPPING_UNITS_PER_PACKAGE: z.coerce.number().int().positive().default(1),
   CREDIT_CARD_FEE_PRODUCT_ID: z.string().min(1, "CREDIT_CARD_FEE_PRODUCT_ID is required"),
   ONE_TIME_PRODUCT_ID: z.string().min(1, "ONE_TIME_PRODUCT_ID is required"),
+  SHIPPING_PRODUCT_ID: z.string().optional(),
   SUBSCRIPTION_PRICE_ID_YEARLY_1: z.string().optional(),
   SUBSCRIPTION_PRICE_ID_YEARLY_2: z.string().optional(),
   SUBSCRIPTION_PRICE_ID_YEARLY_3: z.string().optional(),
   SUBSCRIPTION_PRICE_ID_MONTHLY_1: z.string().optional(),
   SUBSCRIPTION_PRICE_ID_MONTHLY_2: z.string().optional(),
   SUBSCRIPTION_PRICE_ID_MONTHLY_3: z.string().optional(),
+  DATA_STORE: z.enum(["file", "memory"]).default("file"),
+  DATA_STORE_PATH: z.string().min(1).default("data/store.json"),
+  IDEMPOTENCY_KEY_TTL_HOURS: z.coerce.number().positive().default(24),
+  IDEMPOTENCY_KEY_PRUNE_INTERVAL_MINUTES: z.coerce.number().nonnegative().default(60),
+  WEBHOOK_EVENT_RETENTION_DAYS: z.coerce.number().nonnegative().default(30),
+  AUDIT_LOG_RETENTION_DAYS: z.coerce.number().nonnegative().default(365),
+  COUPON_REDEMPTION_RETENTION_DAYS: z.coerce.number().nonnegative().default(365),
+  RECORD_PRUNE_INTERVAL_MINUTES: z.coerce.number().nonnegative().default(360),
+  RENEWAL_REMINDER_DAYS: z.coerce.number().int().positive().default(30),
+  RENEWAL_CHECK_INTERVAL_MINUTES: z.coerce.number().nonnegative().default(60),
+  SCHEDULED_CHARGE_CHECK_INTERVAL_MINUTES: z.coerce.number().nonnegative().default(15),
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -31,6 +128,17 @@ if (!parsed.success) {
   process.exit(1);
 }
 
+// Subscription shipping is billed under its own product, so any configured shipping charge needs one
+const chargesShipping =
+  parsed.data.SHIPPING_COST > 0 || Boolean(parsed.data.SHIPPING_COSTS?.trim()) || parsed.data.SHIPPING_RATES.length > 0;
+if (chargesShipping && !parsed.data.SHIPPING_PRODUCT_ID) {
+  // eslint-disable-next-line no-console
+  console.error("Invalid environment configuration", {
+    SHIPPING_PRODUCT_ID: ["SHIPPING_PRODUCT_ID is required when shipping is charged"],
+  });
+  process.exit(1);
+}
+
 const couponCodes = (parsed.data.COUPON_CODES ?? "")
   .split("|")
   .map((entry) => entry.trim())
@@ -44,18 +152,121 @@ const couponCodes = (parsed.data.COUPON_CODES ?? "")
     return acc;
   }, {});
 
+// Admin API keys by key, each named after its holder so audit log entries show who acted
+const adminApiKeys = (parsed.data.ADMIN_API_KEYS ?? "")
+  .split("|")
+  .map((entry) => entry.trim())
+  .filter((entry) => entry.length > 0)
+  .reduce<Record<string, string>>((acc, entry) => {
+    const separator = entry.indexOf(":");
+    const name = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator <= 0 || !key) {
+      return acc;
+    }
+    acc[key] = name;
+    return acc;
+  }, {});
+
+const shippingCosts = (parsed.data.SHIPPING_COSTS ?? "")
+  .split("|")
+  .map((entry) => entry.trim())
+  .filter((entry) => entry.length > 0)
+  .reduce<Record<string, number>>((acc, entry) => {
+    const [currency, amount] = entry.split(":");
+    const cents = Number(amount);
+    if (!currency || !Number.isInteger(cents) || cents < 0) {
+      return acc;
+    }
+    acc[currency.toLowerCase()] = cents;
+    return acc;
+  }, {});
+
+const taxRates = (parsed.data.TAX_RATES ?? "")
+  .split("|")
+  .map((entry) => entry.trim())
+  .filter((entry) => entry.length > 0)
+  .reduce<Record<string, number>>((acc, entry) => {
+    const [region, rate] = entry.split(":");
+    const percent = Number(rate);
+    if (!region || !rate || !Number.isFinite(percent) || percent < 0) {
+      return acc;
+    }
+    acc[region.toUpperCase()] = percent;
+    return acc;
+  }, {});
+
+const shippingWeightTiers = (parsed.data.SHIPPING_WEIGHT_TIERS ?? "")
+  .split("|")
+  .map((entry) => entry.trim())
+  .filter((entry) => entry.length > 0)
+  .map((entry) => {
+    const [maxGrams, multiplier] = entry.split(":").map(Number);
+    return { maxGrams, multiplier };
+  })
+  .filter((tier) => tier.maxGrams > 0 && Number.isFinite(tier.multiplier) && tier.multiplier >= 0)
+  .sort((a, b) => a.maxGrams - b.maxGrams);
+
 export const env = {
   port: parsed.data.PORT,
   stripeSecretKey: parsed.data.STRIPE_SECRET_KEY,
   stripeWebhookSecret: parsed.data.STRIPE_WEBHOOK_SECRET,
   frontendUrl: parsed.data.FRONTEND_URL,
+  logLevel: parsed.data.LOG_LEVEL,
+  authSessionSecret: parsed.data.AUTH_SESSION_SECRET,
+  authSessionTtlHours: parsed.data.AUTH_SESSION_TTL_HOURS,
+  authLoginCodeTtlMinutes: parsed.data.AUTH_LOGIN_CODE_TTL_MINUTES,
+  authLoginCodeMaxAttempts: parsed.data.AUTH_LOGIN_CODE_MAX_ATTEMPTS,
+  authEmailWebhookUrl: parsed.data.AUTH_EMAIL_WEBHOOK_URL,
+  authLoginCodeMaxSendsPerHour: parsed.data.AUTH_LOGIN_CODE_MAX_SENDS_PER_HOUR,
+  authLoginMaxFailedVerificationsPerHour: parsed.data.AUTH_LOGIN_MAX_FAILED_VERIFICATIONS_PER_HOUR,
+  authMaxRequestsPerIpPerMinute: parsed.data.AUTH_MAX_REQUESTS_PER_IP_PER_MINUTE,
+  // Passed to Express's "trust proxy" setting: a hop count, or addresses and subnets
+  trustProxy: parsed.data.TRUST_PROXY?.match(/^\d+$/) ? Number(parsed.data.TRUST_PROXY) : parsed.data.TRUST_PROXY,
+  adminApiKeys,
+  metricsToken: parsed.data.METRICS_TOKEN,
   shippingCost: parsed.data.SHIPPING_COST,
   currency: parsed.data.CURRENCY,
+  supportedCurrencies: (parsed.data.SUPPORTED_CURRENCIES ?? "")
+    .split(",")
+    .map((currency) => currency.trim().toLowerCase())
+    .filter((currency) => currency.length > 0),
+  netTermsDaysUntilDue: parsed.data.NET_TERMS_DAYS_UNTIL_DUE,
+  paymentMethodTypes: (parsed.data.PAYMENT_METHOD_TYPES ?? "")
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter((type) => type.length > 0),
+  shippingCosts,
+  shippingRates: parsed.data.SHIPPING_RATES,
+  shippingWeightTiers,
+  shippingUnitsPerPackage: parsed.data.SHIPPING_UNITS_PER_PACKAGE,
   creditCardFeePercent: parsed.data.CREDIT_CARD_FEE_PERCENT,
+  surchargeUnknownFunding: parsed.data.SURCHARGE_UNKNOWN_FUNDING,
+  surchargeExcludedBrands: (parsed.data.SURCHARGE_EXCLUDED_BRANDS ?? "")
+    .split(",")
+    .map((brand) => brand.trim().toLowerCase())
+    .filter((brand) => brand.length > 0),
+  surchargeMerchantCostPercent: parsed.data.SURCHARGE_MERCHANT_COST_PERCENT,
+  taxMode: parsed.data.TAX_MODE,
+  taxRates,
   oneTimeBaseAmount: parsed.data.ONE_TIME_BASE_AMOUNT,
   oneTimeProductId: parsed.data.ONE_TIME_PRODUCT_ID,
   creditCardFeeProductId: parsed.data.CREDIT_CARD_FEE_PRODUCT_ID,
+  shippingProductId: parsed.data.SHIPPING_PRODUCT_ID ?? null,
   couponMappings: couponCodes,
+  buyingGroups: parsed.data.BUYING_GROUPS,
+  catalogProducts: parsed.data.CATALOG_PRODUCTS,
+  dataStore: parsed.data.DATA_STORE,
+  dataStorePath: parsed.data.DATA_STORE_PATH,
+  idempotencyKeyTtlHours: parsed.data.IDEMPOTENCY_KEY_TTL_HOURS,
+  idempotencyKeyPruneIntervalMinutes: parsed.data.IDEMPOTENCY_KEY_PRUNE_INTERVAL_MINUTES,
+  webhookEventRetentionDays: parsed.data.WEBHOOK_EVENT_RETENTION_DAYS,
+  auditLogRetentionDays: parsed.data.AUDIT_LOG_RETENTION_DAYS,
+  couponRedemptionRetentionDays: parsed.data.COUPON_REDEMPTION_RETENTION_DAYS,
+  recordPruneIntervalMinutes: parsed.data.RECORD_PRUNE_INTERVAL_MINUTES,
+  renewalReminderDays: parsed.data.RENEWAL_REMINDER_DAYS,
+  renewalCheckIntervalMinutes: parsed.data.RENEWAL_CHECK_INTERVAL_MINUTES,
+  scheduledChargeCheckIntervalMinutes: parsed.data.SCHEDULED_CHARGE_CHECK_INTERVAL_MINUTES,
   subscriptionPriceIds: {
     yearly: {
       1: parsed.data.SUBSCRIPTION_PRICE_ID_YEARLY_1,
@@ -1,3 +1,9 @@
 export { env } from "./env";
 export * from "./pricing";
-
+export * from "./currencies";
+export * from "./surcharges";
+export * from "./tax";
+export * from "./buyingGroups";
+export * from "./catalog";
+export * from "./shipping";
+export * from "./paymentMethods";
@@ -0,0 +1,39 @@
+import { env } from "./env";
+
+export type PaymentMethodType = "card" | "us_bank_account" | "sepa_debit";
+
+const KNOWN_PAYMENT_METHOD_TYPES: PaymentMethodType[] = ["card", "us_bank_account", "sepa_debit"];
+
+/**
+ * Currencies bank debits can be charged in. Cards can be charged in any supported currency.
+ */
+const PAYMENT_METHOD_CURRENCIES: Partial<Record<PaymentMethodType, string[]>> = {
+  us_bank_account: ["usd"],
+  sepa_debit: ["eur"],
+};
+
+/**
+ * Payment method types clinics can pay with. Cards are always accepted; bank debits are enabled with
+ * `PAYMENT_METHOD_TYPES` once they are activated on the Stripe account.
+ */
+export const PAYMENT_METHOD_TYPES: PaymentMethodType[] = KNOWN_PAYMENT_METHOD_TYPES.filter(
+  (type) => type === "card" || env.paymentMethodTypes.includes(type),
+);
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethodType, string> = {
+  card: "Card",
+  us_bank_account: "US bank account",
+  sepa_debit: "SEPA Direct Debit",
+};
+
+export const isPaymentMethodTypeEnabled = (type: string): type is PaymentMethodType =>
+  PAYMENT_METHOD_TYPES.includes(type as PaymentMethodType);
+
+export const canChargeInCurrency = (type: PaymentMethodType, currency: string): boolean =>
+  PAYMENT_METHOD_CURRENCIES[type]?.includes(currency.toLowerCase()) ?? true;
+
+/**
+ * Enabled payment method types that can be charged in the given currency.
+ */
+export const getPaymentMethodTypesForCurrency = (currency: string): PaymentMethodType[] =>
+  PAYMENT_METHOD_TYPES.filter((type) => canChargeInCurrency(type, currency));
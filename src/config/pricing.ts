@@ -1,10 +1,15 @@
+import { ConfigurationError } from "../lib/errors";
 import { env } from "./env";
 
 export const TRIAL_PERIOD_DAYS = 14;
+export const RENEWAL_REMINDER_DAYS = env.renewalReminderDays;
 
 export const SHIPPING_LINE_ITEM_DESCRIPTION = "Shipping";
 export const CREDIT_CARD_FEE_DESCRIPTION = "Credit card processing fee";
 
+/** Days an approved clinic has to pay an invoice sent on net terms, unless set per customer. */
+export const NET_TERMS_DAYS_UNTIL_DUE = env.netTermsDaysUntilDue;
+
 export type SubscriptionDurationYears = 1 | 2 | 3;
 export type SubscriptionBillingCadence = "monthly" | "annual";
 
@@ -48,11 +53,11 @@ export const getSubscriptionPlan = (
     (entry) => entry.durationYears === durationYears && entry.cadence === cadence,
   );
   if (!plan) {
-    throw new Error(`Unsupported subscription plan: ${durationYears} years, ${cadence}`);
+    throw new ConfigurationError(`Unsupported subscription plan: ${durationYears} years, ${cadence}`);
   }
 
   if (!plan.priceId) {
-    throw new Error(
+    throw new ConfigurationError(
       `Missing Stripe price ID for subscription plan: ${durationYears}-year ${cadence}`,
     );
   }
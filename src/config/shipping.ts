@@ -0,0 +1,30 @@
+import { env } from "./env";
+
+export type ShippingServiceLevel = "standard" | "expedited";
+
+export interface ShippingRateConfig {
+  id: string;
+  displayName?: string;
+  serviceLevel: ShippingServiceLevel;
+  /** Destination zone; a rate without countries applies to every destination. */
+  countries?: string[];
+  states?: string[];
+  postalCodePrefixes?: string[];
+  /** Amount in the smallest unit of each currency the rate can be charged in. */
+  amounts: Record<string, number>;
+  /** Order subtotal, after discounts, from which shipping is free, per currency. */
+  freeShippingThresholds?: Record<string, number>;
+  deliveryDays?: { min: number; max: number };
+}
+
+export const SHIPPING_RATES = env.shippingRates as ShippingRateConfig[];
+export const SHIPPING_PRODUCT_ID: string | null = env.shippingProductId;
+
+export interface ShippingWeightTier {
+  maxGrams: number;
+  /** Multiple of the shipping rate charged for orders up to `maxGrams`. */
+  multiplier: number;
+}
+
+export const SHIPPING_WEIGHT_TIERS: ShippingWeightTier[] = env.shippingWeightTiers;
+export const SHIPPING_UNITS_PER_PACKAGE = env.shippingUnitsPerPackage;
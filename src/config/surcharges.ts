@@ -0,0 +1,62 @@
+import { env } from "./env";
+
+export type UnknownFundingTreatment = "surcharge" | "exempt";
+
+export interface SurchargeRule {
+  /** Recorded in invoice and subscription metadata as `surcharge_rule`. */
+  id: string;
+  prohibited?: boolean;
+  /** Highest surcharge percentage allowed. */
+  maxPercent?: number;
+  /** The surcharge may not exceed what the merchant actually pays to accept the card. */
+  capAtMerchantCost?: boolean;
+}
+
+// Card network rules cap surcharges at 3% in the US
+const DEFAULT_US_RULE: SurchargeRule = { id: "us_default", maxPercent: 3 };
+
+const US_STATE_SURCHARGE_RULES: Record<string, SurchargeRule> = {
+  CT: { id: "us_ct_prohibited", prohibited: true },
+  MA: { id: "us_ma_prohibited", prohibited: true },
+  PR: { id: "us_pr_prohibited", prohibited: true },
+  CO: { id: "us_co_cap", maxPercent: 2, capAtMerchantCost: true },
+  ME: { id: "us_me_cost", maxPercent: 3, capAtMerchantCost: true },
+  NY: { id: "us_ny_cost", maxPercent: 3, capAtMerchantCost: true },
+};
+
+/** EU member states plus the EEA countries Iceland, Liechtenstein and Norway. */
+export const EU_EEA_COUNTRIES = new Set(
+  "AT BE BG HR CY CZ DK EE FI FR DE GR HU IE IT LV LT LU MT NL PL PT RO SK SI ES SE IS LI NO".split(" "),
+);
+
+const EU_PROHIBITED_RULE: SurchargeRule = { id: "eu_prohibited", prohibited: true };
+
+const COUNTRY_SURCHARGE_RULES: Record<string, SurchargeRule> = {
+  US: DEFAULT_US_RULE,
+  CA: { id: "ca_cap", maxPercent: 2.4 },
+  AU: { id: "au_cost", capAtMerchantCost: true },
+  NZ: { id: "nz_cost", capAtMerchantCost: true },
+  // Surcharging consumer cards is banned in the UK and across the EU/EEA
+  GB: { id: "gb_prohibited", prohibited: true },
+  ...Object.fromEntries([...EU_EEA_COUNTRIES].map((country) => [country, EU_PROHIBITED_RULE])),
+};
+
+const DEFAULT_SURCHARGE_RULE: SurchargeRule = { id: "default" };
+
+export const getSurchargeRule = (country: string | undefined, state?: string | null): SurchargeRule => {
+  const normalizedCountry = country?.toUpperCase() ?? "";
+  if (normalizedCountry === "US" && state) {
+    const stateRule = US_STATE_SURCHARGE_RULES[state.toUpperCase()];
+    if (stateRule) {
+      return stateRule;
+    }
+  }
+  return COUNTRY_SURCHARGE_RULES[normalizedCountry] ?? DEFAULT_SURCHARGE_RULE;
+};
+
+/** Funding types that are never surcharged; card network rules forbid surcharging debit and prepaid cards. */
+export const SURCHARGE_EXEMPT_FUNDING = new Set(["debit", "prepaid"]);
+
+export const SURCHARGE_UNKNOWN_FUNDING: UnknownFundingTreatment = env.surchargeUnknownFunding;
+export const SURCHARGE_EXCLUDED_BRANDS = new Set(env.surchargeExcludedBrands);
+export const SURCHARGE_MERCHANT_COST_PERCENT = env.surchargeMerchantCostPercent;
@@ -0,0 +1,33 @@
+import { env } from "./env";
+
+export type TaxMode = "none" | "rates" | "automatic";
+
+export interface TaxRateConfig {
+  /** `COUNTRY` or `COUNTRY-STATE`, as configured in `TAX_RATES`. */
+  region: string;
+  country: string;
+  state?: string;
+  percent: number;
+}
+
+export const TAX_MODE: TaxMode = env.taxMode;
+
+/**
+ * Looks up the local tax rate for an address. A state rate takes precedence over the country rate.
+ */
+export const getTaxRateConfig = (country: string | undefined, state?: string | null): TaxRateConfig | null => {
+  const normalizedCountry = country?.toUpperCase();
+  if (!normalizedCountry) {
+    return null;
+  }
+  const normalizedState = state?.toUpperCase();
+  if (normalizedState) {
+    const region = `${normalizedCountry}-${normalizedState}`;
+    const percent = env.taxRates[region];
+    if (percent !== undefined) {
+      return { region, country: normalizedCountry, state: normalizedState, percent };
+    }
+  }
+  const percent = env.taxRates[normalizedCountry];
+  return percent !== undefined ? { region: normalizedCountry, country: normalizedCountry, percent } : null;
+};
@@ -0,0 +1,188 @@
+import Stripe from "stripe";
+import { ZodError } from "zod";
+
+export type ErrorDetails = Record<string, unknown> | null;
+
+/**
+ * An error with a stable, machine-readable `code` and the HTTP status it is answered with. The message is
+ * meant for the caller; see `toAppError` for how other errors are translated.
+ */
+export class AppError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details: ErrorDetails = null,
+  ) {
+    super(message);
+    this.name = "AppError";
+  }
+}
+
+/**
+ * The request can't be processed as sent, e.g. an invalid field or a coupon that doesn't apply.
+ */
+export class ValidationError extends AppError {
+  constructor(code: string, message: string, details: ErrorDetails = null) {
+    super(400, code, message, details);
+    this.name = "ValidationError";
+  }
+}
+
+export class AuthenticationError extends AppError {
+  constructor(code: string, message: string) {
+    super(401, code, message);
+    this.name = "AuthenticationError";
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(code: string, message: string, details: ErrorDetails = null) {
+    super(404, code, message, details);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(code: string, message: string) {
+    super(409, code, message);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * The caller sent too many requests, e.g. sign-in attempts, and should wait before trying again.
+ */
+export class RateLimitError extends AppError {
+  constructor(code: string, message: string) {
+    super(429, code, message);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * The customer's bank or card issuer declined the payment. The message tells the customer what to do next.
+ */
+export class PaymentDeclinedError extends AppError {
+  constructor(
+    readonly declineCode: string | null,
+    message = getDeclineMessage(declineCode),
+  ) {
+    super(402, "payment_declined", message, { declineCode });
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+/**
+ * The server is missing or has invalid configuration, e.g. a Stripe price ID. The message is for the logs;
+ * callers only get a generic one.
+ */
+export class ConfigurationError extends AppError {
+  constructor(message: string) {
+    super(500, "configuration_error", message);
+    this.name = "ConfigurationError";
+  }
+}
+
+/**
+ * Stripe failed or rejected a request we made. The message is for the logs; callers only get a generic one.
+ */
+export class UpstreamStripeError extends AppError {
+  constructor(message: string, details: ErrorDetails = null) {
+    super(502, "stripe_error", message, details);
+    this.name = "UpstreamStripeError";
+  }
+}
+
+const GENERIC_DECLINE_MESSAGE = "Your payment was declined. Please use another payment method or contact your bank.";
+
+// Lost, stolen and fraud declines deliberately get the generic message, as Stripe recommends
+const DECLINE_MESSAGES: Record<string, string> = {
+  insufficient_funds: "Your payment was declined for insufficient funds. Please use another payment method.",
+  expired_card: "Your card has expired. Please use another card.",
+  incorrect_cvc: "Your card's security code is incorrect. Please check it and try again.",
+  invalid_cvc: "Your card's security code is incorrect. Please check it and try again.",
+  incorrect_number: "Your card number is incorrect. Please check it and try again.",
+  invalid_number: "Your card number is incorrect. Please check it and try again.",
+  invalid_expiry_month: "Your card's expiration date is incorrect. Please check it and try again.",
+  invalid_expiry_year: "Your card's expiration date is incorrect. Please check it and try again.",
+  incorrect_zip: "Your card's postal code is incorrect. Please check it and try again.",
+  card_velocity_exceeded: "Your card has reached its spending limit. Please use another payment method.",
+  withdrawal_count_limit_exceeded: "Your card has reached its spending limit. Please use another payment method.",
+  card_not_supported: "Your card doesn't support this kind of purchase. Please use another card.",
+  currency_not_supported: "Your card can't be charged in this currency. Please use another card.",
+  authentication_required: "Your bank requires you to authenticate this payment. Please try again.",
+  processing_error: "An error occurred while processing your card. Please try again in a moment.",
+  try_again_later: "Your bank couldn't process the payment right now. Please try again in a moment.",
+  issuer_not_available: "Your bank couldn't be reached to authorize the payment. Please try again in a moment.",
+  call_issuer: "Your payment was declined. Please contact your bank for details.",
+  do_not_honor: "Your payment was declined. Please contact your bank for details.",
+  account_closed: "The bank account is closed. Please use another payment method.",
+  bank_account_restricted: "The bank account can't be debited. Please use another payment method.",
+  debit_not_authorized: "Your bank didn't authorize the debit. Please contact your bank or use another payment method.",
+};
+
+/**
+ * A customer-facing message for a Stripe `decline_code`, or a card error `code` when there is none.
+ */
+export const getDeclineMessage = (declineCode: string | null | undefined): string =>
+  (declineCode && DECLINE_MESSAGES[declineCode]) || GENERIC_DECLINE_MESSAGE;
+
+const getStripeDetails = (error: Stripe.errors.StripeError): ErrorDetails => ({
+  type: error.type,
+  stripeCode: error.code ?? null,
+  stripeRequestId: error.requestId ?? null,
+});
+
+const translateStripeError = (error: Stripe.errors.StripeError): AppError => {
+  if (error instanceof Stripe.errors.StripeCardError) {
+    return new PaymentDeclinedError(error.decline_code ?? error.code ?? null);
+  }
+  // IDs the caller supplied are looked up explicitly and answered with a 404; any other missing object is
+  // one we referenced ourselves, e.g. a configured price ID
+  if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === "resource_missing") {
+    return new ConfigurationError(`Stripe object not found: ${error.message}`);
+  }
+  if (error instanceof Stripe.errors.StripeIdempotencyError) {
+    return new ConflictError(
+      "idempotency_conflict",
+      "This request conflicts with an earlier request with the same key.",
+    );
+  }
+  if (
+    error instanceof Stripe.errors.StripeAuthenticationError ||
+    error instanceof Stripe.errors.StripePermissionError
+  ) {
+    return new ConfigurationError(`Stripe rejected our credentials: ${error.message}`);
+  }
+  return new UpstreamStripeError(error.message, getStripeDetails(error));
+};
+
+const isJsonParseError = (error: unknown): boolean =>
+  error instanceof SyntaxError && (error as SyntaxError & { type?: string }).type === "entity.parse.failed";
+
+/**
+ * Translates any error thrown while handling a request into an `AppError`: zod issues become a validation
+ * error with field-level details, Stripe errors are mapped by type, and anything else is an internal error.
+ */
+export const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (error instanceof ZodError) {
+    return new ValidationError("invalid_request", "Some fields are missing or invalid.", {
+      issues: error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        code: issue.code,
+        message: issue.message,
+      })),
+    });
+  }
+  if (isJsonParseError(error)) {
+    return new ValidationError("invalid_json", "The request body is not valid JSON.");
+  }
+  if (error instanceof Stripe.errors.StripeError) {
+    return translateStripeError(error);
+  }
+  return new AppError(500, "internal_error", error instanceof Error ? error.message : String(error));
+};
@@ -0,0 +1,71 @@
+import { env } from "../config";
+import { getCurrentRequestId } from "./requestContext";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@([A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,})/gi;
+// Payment method, card, source and bank account IDs; decline codes such as `card_declined` don't match
+const PAYMENT_METHOD_ID_PATTERN = /\b(pm|card|src|ba)_[A-Za-z0-9]{14,}\b/g;
+
+const redactString = (value: string): string =>
+  value
+    .replace(EMAIL_PATTERN, (_match, domain: string) => `[email]@${domain}`)
+    .replace(PAYMENT_METHOD_ID_PATTERN, (_match, prefix: string) => `${prefix}_[redacted]`);
+
+/**
+ * Masks emails (keeping the domain) and payment method IDs anywhere in a log value, and turns errors into
+ * plain objects so their message and stack are logged.
+ */
+const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== "object" || depth > 6) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Error) {
+    const code = (value as Error & { code?: unknown }).code;
+    return redact({ name: value.name, message: value.message, code, stack: value.stack }, depth + 1);
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => redact(entry, depth + 1));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, redact(entry, depth + 1)]));
+};
+
+const write = (level: LogLevel, event: string, fields: LogFields = {}): void => {
+  if (LEVEL_SEVERITY[level] < LEVEL_SEVERITY[env.logLevel]) {
+    return;
+  }
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    event,
+    requestId: getCurrentRequestId() ?? undefined,
+    ...(redact(fields) as LogFields),
+  };
+  process.stdout.write(`${JSON.stringify(entry)}\n`);
+};
+
+/**
+ * Structured JSON logger. Each line has the time, level, a dotted event name such as `invoice.created`, the ID
+ * of the request being handled, if any, and the given fields, with emails and payment method IDs redacted.
+ */
+export const logger = {
+  debug: (event: string, fields?: LogFields) => write("debug", event, fields),
+  info: (event: string, fields?: LogFields) => write("info", event, fields),
+  warn: (event: string, fields?: LogFields) => write("warn", event, fields),
+  error: (event: string, fields?: LogFields) => write("error", event, fields),
+};
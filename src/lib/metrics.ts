@@ -0,0 +1,192 @@
+import { toAppError } from "./errors";
+
+export type MetricLabels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: MetricLabels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+};
+
+// Keeps only the declared label names, in declaration order, so the same labels always map to the same series
+const pickLabels = (labelNames: string[], labels: MetricLabels): MetricLabels =>
+  Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? ""]));
+
+const seriesKey = (labels: MetricLabels): string => JSON.stringify(labels);
+
+/**
+ * A Prometheus counter, kept in memory per process. Registered for `renderMetrics` on creation.
+ */
+export class Counter {
+  private readonly series = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = [],
+  ) {
+    registry.push(this);
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const picked = pickLabels(this.labelNames, labels);
+    const key = seriesKey(picked);
+    const entry = this.series.get(key) ?? { labels: picked, value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+/**
+ * A Prometheus histogram with cumulative buckets, kept in memory per process. Registered for `renderMetrics`
+ * on creation.
+ */
+export class Histogram {
+  private readonly series = new Map<string, { labels: MetricLabels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = [],
+    readonly bucketBounds: number[] = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  ) {
+    registry.push(this);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const picked = pickLabels(this.labelNames, labels);
+    const key = seriesKey(picked);
+    const entry = this.series.get(key) ?? {
+      labels: picked,
+      buckets: this.bucketBounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.bucketBounds.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.buckets[index] += 1;
+      }
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bucketBounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * All registered metrics in the Prometheus text exposition format.
+ */
+export const renderMetrics = (): string => `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+
+export const checkoutAttempts = new Counter(
+  "checkout_attempts_total",
+  "Checkout requests for one-time orders and subscriptions.",
+  ["plan_type", "cadence"],
+);
+
+export const checkoutSuccesses = new Counter("checkout_successes_total", "Checkouts that created an order.", [
+  "plan_type",
+  "cadence",
+]);
+
+export const checkoutFailures = new Counter(
+  "checkout_failures_total",
+  "Checkouts that failed, by error code, e.g. payment_declined or invalid_request.",
+  ["plan_type", "cadence", "code"],
+);
+
+export const creditCardFeeAmount = new Counter(
+  "credit_card_fee_amount_total",
+  "Credit card fees added to checkouts, in the smallest currency unit.",
+  ["plan_type", "currency"],
+);
+
+export const couponRedemptions = new Counter("coupon_redemptions_total", "Coupon codes redeemed on orders.", [
+  "code",
+  "plan_type",
+]);
+
+export const couponRejections = new Counter("coupon_rejections_total", "Coupon codes rejected at checkout.", [
+  "reason",
+]);
+
+export const webhookEvents = new Counter("stripe_webhook_events_total", "Stripe webhook events received.", [
+  "type",
+  "outcome",
+]);
+
+export const stripeApiRequests = new Counter("stripe_api_requests_total", "Stripe API requests by response status.", [
+  "method",
+  "resource",
+  "status",
+]);
+
+export const stripeApiRequestDuration = new Histogram(
+  "stripe_api_request_duration_seconds",
+  "Stripe API request latency.",
+  ["method", "resource"],
+);
+
+// Object IDs have a lower-case prefix and a part with digits or capitals; endpoint names such as `line_items` don't
+const STRIPE_ID_SEGMENT = /^[a-z]+_(?=[A-Za-z0-9_]*[A-Z0-9])[A-Za-z0-9_]+$/;
+
+/**
+ * The Stripe API path with object IDs replaced, e.g. `/v1/invoices/in_123/pay` becomes `invoices/:id/pay`,
+ * so requests group by endpoint.
+ */
+export const getStripeResource = (path: string): string =>
+  path
+    .split("?")[0]
+    .split("/")
+    .filter((segment) => segment && segment !== "v1")
+    .map((segment) => (STRIPE_ID_SEGMENT.test(segment) ? ":id" : segment))
+    .join("/");
+
+export interface CheckoutLabels extends MetricLabels {
+  plan_type: string;
+  cadence: string;
+}
+
+export const recordCheckoutAttempt = (labels: CheckoutLabels): void => checkoutAttempts.inc(labels);
+
+export const recordCheckoutSuccess = (labels: CheckoutLabels, fee: { amount: number; currency: string }): void => {
+  checkoutSuccesses.inc(labels);
+  if (fee.amount > 0) {
+    creditCardFeeAmount.inc({ plan_type: labels.plan_type, currency: fee.currency }, fee.amount);
+  }
+};
+
+export const recordCheckoutFailure = (labels: CheckoutLabels, error: unknown): void =>
+  checkoutFailures.inc({ ...labels, code: toAppError(error).code });
@@ -0,0 +1,49 @@
+/**
+ * Counts events per key over a rolling window. Counts are kept in memory, so each process limits on its own.
+ */
+export interface RateLimiter {
+  /** Whether the key already reached the limit within the window. */
+  isLimited(key: string, now?: Date): boolean;
+  hit(key: string, now?: Date): void;
+}
+
+/**
+ * A limit of 0 disables the limiter.
+ */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  let lastSweepAt = 0;
+
+  const recentHits = (key: string, now: number): number[] => {
+    const recent = (hits.get(key) ?? []).filter((time) => time > now - windowMs);
+    if (recent.length > 0) {
+      hits.set(key, recent);
+    } else {
+      hits.delete(key);
+    }
+    return recent;
+  };
+
+  // Keys that went quiet are dropped once per window, so the map doesn't grow with every email or IP seen
+  const sweep = (now: number) => {
+    if (now - lastSweepAt < windowMs) {
+      return;
+    }
+    lastSweepAt = now;
+    for (const key of hits.keys()) {
+      recentHits(key, now);
+    }
+  };
+
+  return {
+    isLimited: (key, now = new Date()) => {
+      sweep(now.getTime());
+      return limit > 0 && recentHits(key, now.getTime()).length >= limit;
+    },
+    hit: (key, now = new Date()) => {
+      if (limit > 0) {
+        hits.set(key, [...recentHits(key, now.getTime()), now.getTime()]);
+      }
+    },
+  };
+};
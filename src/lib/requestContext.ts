@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs the rest of a request with its context, so logs and Stripe calls made anywhere while handling it can be
+ * traced back to the request.
+ */
+export const runWithRequestContext = <T>(context: RequestContext, callback: () => T): T =>
+  storage.run(context, callback);
+
+export const getCurrentRequestId = (): string | null => storage.getStore()?.requestId ?? null;
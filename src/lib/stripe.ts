@@ -1,8 +1,30 @@
 import Stripe from "stripe";
 import { env } from "../config";
+import { logger } from "./logger";
+import { getStripeResource, stripeApiRequestDuration, stripeApiRequests } from "./metrics";
 
 export const stripe = new Stripe(env.stripeSecretKey, {
   apiVersion: "2024-06-20",
   typescript: true
 });
 
+stripe.on("response", (response) => {
+  const resource = getStripeResource(response.path);
+  stripeApiRequests.inc({ method: response.method, resource, status: String(response.status) });
+  stripeApiRequestDuration.observe({ method: response.method, resource }, response.elapsed / 1000);
+  logger.debug("stripe.response", {
+    method: response.method,
+    path: response.path,
+    status: response.status,
+    stripeRequestId: response.request_id,
+    durationMs: response.elapsed
+  });
+});
+
+/**
+ * Builds the request options for one Stripe call of a multi-step flow, e.g. to derive a
+ * distinct idempotency key per step from the client's `Idempotency-Key`.
+ */
+export type StripeRequestOptionsFactory = (step: string) => Stripe.RequestOptions;
+
+export const noRequestOptions: StripeRequestOptionsFactory = () => ({});
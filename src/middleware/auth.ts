@@ -0,0 +1,101 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { CookieOptions, NextFunction, Request, Response } from "express";
+import { env } from "../config";
+import { AuthenticationError } from "../lib/errors";
+import { verifySessionToken } from "../services/auth";
+import type { Session } from "../services/auth";
+
+export const SESSION_COOKIE = "session";
+const ADMIN_API_KEY_HEADER = "x-api-key";
+
+// The frontend runs on another origin, so the cookie is sent cross-site (see the `credentials: true` CORS setup)
+const sessionCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: "none",
+  path: "/api",
+};
+
+const readCookie = (req: Request, name: string): string | undefined => {
+  for (const entry of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = entry.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return undefined;
+};
+
+const readSessionToken = (req: Request): string | undefined => {
+  const authorization = req.header("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  return readCookie(req, SESSION_COOKIE);
+};
+
+export const setSessionCookie = (res: Response, token: string, session: Session): void => {
+  res.cookie(SESSION_COOKIE, token, { ...sessionCookieOptions, expires: session.expiresAt });
+};
+
+export const clearSessionCookie = (res: Response): void => {
+  res.clearCookie(SESSION_COOKIE, sessionCookieOptions);
+};
+
+/**
+ * Rejects requests without a valid session token, sent as a `Bearer` token or in the session cookie.
+ * Routes behind it act only on the customer of the session's email; see `getSession`.
+ */
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  const token = readSessionToken(req);
+  const session = token ? verifySessionToken(token) : null;
+  if (!session) {
+    return next(new AuthenticationError("session_required", "Please sign in to continue."));
+  }
+  res.locals.session = session;
+  next();
+};
+
+/**
+ * The session of a request that passed `requireSession`.
+ */
+export const getSession = (res: Response): Session => res.locals.session as Session;
+
+const digest = (value: string): Buffer => createHash("sha256").update(value).digest();
+
+const findAdminActor = (key: string): string | undefined => {
+  const keyDigest = digest(key);
+  const match = Object.entries(env.adminApiKeys).find(([adminKey]) => timingSafeEqual(digest(adminKey), keyDigest));
+  return match?.[1];
+};
+
+/**
+ * Rejects requests without a known admin API key in the `X-Api-Key` header. The key's name is the actor
+ * of the request's audit log entries; see `getAdminActor`.
+ */
+export const requireAdminApiKey = (req: Request, res: Response, next: NextFunction) => {
+  const key = req.header(ADMIN_API_KEY_HEADER);
+  const actor = key ? findAdminActor(key) : undefined;
+  if (!actor) {
+    return next(new AuthenticationError("admin_api_key_required", "A valid admin API key is required."));
+  }
+  res.locals.adminActor = actor;
+  next();
+};
+
+export const getAdminActor = (res: Response): string => res.locals.adminActor as string;
+
+/**
+ * Rejects requests without `METRICS_TOKEN` as a `Bearer` token. The metrics are open when no token is configured.
+ */
+export const requireMetricsToken = (req: Request, _res: Response, next: NextFunction) => {
+  if (!env.metricsToken) {
+    return next();
+  }
+  const authorization = req.header("authorization") ?? "";
+  const token = authorization.startsWith("Bearer ") ? authorization.slice("Bearer ".length).trim() : "";
+  if (!timingSafeEqual(digest(token), digest(env.metricsToken))) {
+    return next(new AuthenticationError("metrics_token_required", "A valid metrics token is required."));
+  }
+  next();
+};
@@ -0,0 +1,35 @@
+import type { NextFunction, Request, Response } from "express";
+import { NotFoundError, toAppError } from "../lib/errors";
+import { logger } from "../lib/logger";
+import { getRequestId } from "./requestId";
+
+// Server errors can carry internal details such as configuration or Stripe messages, so callers get these instead
+const SERVER_ERROR_MESSAGES: Record<string, string> = {
+  configuration_error: "This service is not configured correctly. Please contact support.",
+  stripe_error: "Our payment provider couldn't process the request. Please try again in a moment.",
+};
+const INTERNAL_ERROR_MESSAGE = "Something went wrong. Please try again or contact support.";
+
+export const notFoundHandler = (req: Request, _res: Response, next: NextFunction) => {
+  next(new NotFoundError("route_not_found", `No route for ${req.method} ${req.path}.`));
+};
+
+/**
+ * Answers every error with `{ code, message, details, requestId }` and the status of its `AppError`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const errorHandler = (err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+  const error = toAppError(err);
+  const requestId = getRequestId(res);
+  const isServerError = error.status >= 500;
+  if (isServerError) {
+    logger.error("request.failed", { code: error.code, error: err });
+  }
+
+  res.status(error.status).json({
+    code: error.code,
+    message: isServerError ? (SERVER_ERROR_MESSAGES[error.code] ?? INTERNAL_ERROR_MESSAGE) : error.message,
+    details: isServerError && error.code !== "stripe_error" ? null : error.details,
+    requestId,
+  });
+};
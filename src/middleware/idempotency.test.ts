@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import { store } from "../store";
+import { errorHandler } from "./errors";
+import { getIdempotentRequestTime, idempotency } from "./idempotency";
+
+describe("idempotency", () => {
+  let server: Server;
+  let baseUrl: string;
+  let charges = 0;
+  let failuresLeft = 0;
+  let releaseSlowCharge: () => void = () => undefined;
+
+  const post = async (path: string, key: string, body: unknown, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", "idempotency-key": key },
+      body: JSON.stringify(body),
+      signal,
+    });
+    return {
+      status: response.status,
+      replayed: response.headers.get("idempotent-replayed"),
+      body: await response.json(),
+    };
+  };
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(idempotency);
+    app.post("/charges", (req, res) => {
+      charges += 1;
+      res.status(201).json({ charge: charges, amount: req.body.amount });
+    });
+    app.post("/slow-charges", async (_req, res) => {
+      await new Promise<void>((resolve) => {
+        releaseSlowCharge = resolve;
+      });
+      charges += 1;
+      res.status(201).json({ charge: charges });
+    });
+    app.post("/flaky-charges", (_req, res, next) => {
+      if (failuresLeft > 0) {
+        failuresLeft -= 1;
+        return next(new Error("Stripe is down."));
+      }
+      res.status(201).json({ requestTime: getIdempotentRequestTime(res).toISOString() });
+    });
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("replays the first response for a repeated key", async () => {
+    const first = await post("/charges", "key-replay", { amount: 5000 });
+    const second = await post("/charges", "key-replay", { amount: 5000 });
+
+    assert.equal(first.status, 201);
+    assert.equal(second.status, 201);
+    assert.equal(second.replayed, "true");
+    assert.deepEqual(second.body, first.body);
+    assert.equal(charges, 1);
+  });
+
+  it("rejects a key reused with a different body", async () => {
+    await post("/charges", "key-reused", { amount: 5000 });
+    const response = await post("/charges", "key-reused", { amount: 9000 });
+
+    assert.equal(response.status, 422);
+    assert.equal(response.body.code, "idempotency_key_reused");
+  });
+
+  it("keeps the key locked while the first request runs, even after its client disconnects", async () => {
+    const chargesBefore = charges;
+    const client = new AbortController();
+    const first = post("/slow-charges", "key-slow", {}, client.signal).catch(() => null);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    client.abort();
+    assert.equal(await first, null);
+
+    const concurrent = await post("/slow-charges", "key-slow", {});
+    assert.equal(concurrent.status, 409);
+    assert.equal(concurrent.body.code, "idempotency_key_in_progress");
+
+    releaseSlowCharge();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const retry = await post("/slow-charges", "key-slow", {});
+    assert.equal(retry.replayed, "true");
+    assert.equal(charges, chargesBefore + 1);
+  });
+
+  it("lets a failed request be retried with the same key and first attempt time", async () => {
+    failuresLeft = 1;
+    const failed = await post("/flaky-charges", "key-flaky", {});
+    assert.equal(failed.status, 500);
+    const firstAttemptAt = (await store.idempotencyKeys.findOne((record) => record.key === "key-flaky"))
+      ?.firstAttemptAt;
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const retried = await post("/flaky-charges", "key-flaky", {});
+    assert.equal(retried.status, 201);
+    assert.equal(retried.replayed, null);
+    assert.equal(retried.body.requestTime, firstAttemptAt);
+  });
+});
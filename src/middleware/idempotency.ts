@@ -0,0 +1,175 @@
+import { createHash } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { env } from "../config";
+import { AppError, ConflictError, ValidationError } from "../lib/errors";
+import { logger } from "../lib/logger";
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import type { Session } from "../services/auth";
+import { store } from "../store";
+import { schedulePeriodicTask } from "../utils/scheduler";
+
+const IDEMPOTENCY_HEADER = "idempotency-key";
+const MAX_KEY_LENGTH = 255;
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// Guards against two concurrent requests with the same key racing past the store lookup.
+const inFlightKeys = new Set<string>();
+
+const hashRequestBody = (body: unknown): string =>
+  createHash("sha256")
+    .update(JSON.stringify(body ?? null))
+    .digest("hex");
+
+// Keys are scoped to the caller, so two customers or admins picking the same key never see each other's responses
+const getCaller = (res: Response): string =>
+  (res.locals.session as Session | undefined)?.email ?? (res.locals.adminActor as string | undefined) ?? "anonymous";
+
+const isExpired = (expiresAt: string): boolean => new Date(expiresAt).getTime() <= Date.now();
+
+// A failed attempt may have reached Stripe, so its retry must send the same params under the same derived keys
+const isRetryableFailure = (status: number, body: unknown): boolean =>
+  status >= 500 || body === undefined || (body as { code?: string } | null)?.code === "idempotency_conflict";
+
+/**
+ * Stores the first response for each `Idempotency-Key` header and replays it for repeated requests.
+ * A key reused with a different body is rejected, as is a key whose first request is still running here.
+ * Server errors are never replayed, so the client can retry them with the same key; the retry reuses the
+ * first attempt's time (see `getIdempotentRequestTime`).
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.header(IDEMPOTENCY_HEADER);
+  if (!MUTATING_METHODS.has(req.method) || key === undefined) {
+    return next();
+  }
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    return next(
+      new ValidationError(
+        "invalid_idempotency_key",
+        `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters.`,
+      ),
+    );
+  }
+
+  const recordId = `${getCaller(res)} ${req.method} ${req.baseUrl}${req.path} ${key}`;
+  const requestHash = hashRequestBody(req.body);
+
+  try {
+    if (inFlightKeys.has(recordId)) {
+      return next(
+        new ConflictError("idempotency_key_in_progress", "A request with this Idempotency-Key is already in progress."),
+      );
+    }
+
+    let firstAttemptAt = new Date().toISOString();
+    const existing = await store.idempotencyKeys.get(recordId);
+    if (existing && !isExpired(existing.expiresAt)) {
+      if (existing.requestHash !== requestHash) {
+        return next(
+          new AppError(
+            422,
+            "idempotency_key_reused",
+            "Idempotency-Key was already used with a different request body.",
+          ),
+        );
+      }
+      // An `in_progress` record that no request in this process owns was left by a crash or restart, so it is
+      // retried like a failed attempt instead of locking the key until it expires
+      if (existing.state === "completed") {
+        res.setHeader("Idempotent-Replayed", "true");
+        return res.status(existing.responseStatus ?? 200).json(existing.responseBody);
+      }
+      firstAttemptAt = existing.firstAttemptAt ?? firstAttemptAt;
+    }
+
+    inFlightKeys.add(recordId);
+    const expiresAt = new Date(Date.now() + env.idempotencyKeyTtlHours * 60 * 60 * 1000).toISOString();
+    await store.idempotencyKeys.upsert({
+      id: recordId,
+      key,
+      requestHash,
+      state: "in_progress",
+      firstAttemptAt,
+      expiresAt,
+    });
+
+    // Recorded once the handler responds, not when the connection closes: a client that disconnects early
+    // must not release the key while the handler is still calling Stripe
+    let settled = false;
+    const settle = (responseBody: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      inFlightKeys.delete(recordId);
+      const completion = isRetryableFailure(res.statusCode, responseBody)
+        ? store.idempotencyKeys.upsert({ id: recordId, key, requestHash, state: "failed", firstAttemptAt, expiresAt })
+        : store.idempotencyKeys.upsert({
+            id: recordId,
+            key,
+            requestHash,
+            state: "completed",
+            responseStatus: res.statusCode,
+            responseBody,
+            firstAttemptAt,
+            expiresAt,
+          });
+      completion.catch((error) => {
+        logger.error("idempotency.store_failed", { key, error });
+      });
+    };
+
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const result = originalJson(body);
+      settle(body);
+      return result;
+    };
+    // Responses sent without `res.json` are never replayed
+    res.on("finish", () => settle(undefined));
+
+    res.locals.idempotencyKey = key;
+    res.locals.idempotentRequestTime = new Date(firstAttemptAt);
+    next();
+  } catch (error) {
+    inFlightKeys.delete(recordId);
+    next(error);
+  }
+};
+
+/**
+ * Derives a per-step Stripe idempotency key from the request's `Idempotency-Key`, if any,
+ * so a replayed request never creates or charges anything twice in Stripe.
+ */
+export const stripeRequestOptionsFor = (res: Response, scope: string): StripeRequestOptionsFactory => {
+  const key = res.locals.idempotencyKey as string | undefined;
+  if (!key) {
+    return () => ({});
+  }
+  const baseKey = createHash("sha256")
+    .update(`${scope}:${getCaller(res)}:${key}`)
+    .digest("hex");
+  return (step) => ({ idempotencyKey: `${baseKey}:${step}` });
+};
+
+/**
+ * When the request was first attempted under its `Idempotency-Key`, or now without one. Use it for anything
+ * time-based sent to Stripe under a derived key, e.g. `terms_accepted_at`, so retries send identical params.
+ */
+export const getIdempotentRequestTime = (res: Response): Date =>
+  (res.locals.idempotentRequestTime as Date | undefined) ?? new Date();
+
+/**
+ * Deletes idempotency records whose TTL has passed; a new request with an expired key overwrites it anyway.
+ */
+export const pruneExpiredIdempotencyKeys = async (): Promise<void> => {
+  const count = await store.idempotencyKeys.deleteMany((record) => isExpired(record.expiresAt));
+  if (count > 0) {
+    logger.info("idempotency.pruned", { count });
+  }
+};
+
+export const startIdempotencyKeyPruner = (): (() => void) =>
+  schedulePeriodicTask("prune expired idempotency keys", env.idempotencyKeyPruneIntervalMinutes, () =>
+    pruneExpiredIdempotencyKeys(),
+  );
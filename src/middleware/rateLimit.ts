@@ -0,0 +1,20 @@
+import type { NextFunction, Request, Response } from "express";
+import { RateLimitError } from "../lib/errors";
+import { createRateLimiter } from "../lib/rateLimiter";
+
+/**
+ * Answers 429 once a client IP made `limit` requests within the window. Behind a proxy, `TRUST_PROXY` must be
+ * set for `req.ip` to be the client's address rather than the proxy's.
+ */
+export const limitRequestsPerIp = (limit: number, windowMs: number) => {
+  const limiter = createRateLimiter(limit, windowMs);
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const ip = req.ip ?? "unknown";
+    if (limiter.isLimited(ip)) {
+      next(new RateLimitError("too_many_requests", "Too many requests. Please try again in a few minutes."));
+      return;
+    }
+    limiter.hit(ip);
+    next();
+  };
+};
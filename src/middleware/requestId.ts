@@ -0,0 +1,21 @@
+import { randomUUID } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { runWithRequestContext } from "../lib/requestContext";
+
+const REQUEST_ID_HEADER = "x-request-id";
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Gives every request an ID, taken from the `X-Request-Id` header when a proxy set one, and echoes it in
+ * the response so clients can quote it to support. The rest of the request runs with the ID in its context,
+ * so it is on every log line and on the Stripe objects the request creates.
+ */
+export const assignRequestId = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.header(REQUEST_ID_HEADER)?.trim();
+  const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+  res.locals.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
+  runWithRequestContext({ requestId }, next);
+};
+
+export const getRequestId = (res: Response): string | null => (res.locals.requestId as string | undefined) ?? null;
@@ -0,0 +1,26 @@
+import type { NextFunction, Request, Response } from "express";
+import { logger } from "../lib/logger";
+
+/**
+ * Logs every request once it has been answered, at `warn` for client errors and `error` for server errors.
+ */
+export const logRequests = (req: Request, res: Response, next: NextFunction) => {
+  const startedAt = process.hrtime.bigint();
+  res.on("finish", () => {
+    const fields = {
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      status: res.statusCode,
+      durationMs: Number((process.hrtime.bigint() - startedAt) / 1000n) / 1000,
+      replayed: res.getHeader("Idempotent-Replayed") === "true" || undefined,
+    };
+    if (res.statusCode >= 500) {
+      logger.error("http.request", fields);
+    } else if (res.statusCode >= 400) {
+      logger.warn("http.request", fields);
+    } else {
+      logger.info("http.request", fields);
+    }
+  });
+  next();
+};
@@ -0,0 +1,311 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { z } from "zod";
+import Stripe from "stripe";
+import { NotFoundError } from "../lib/errors";
+import { PlanType } from "../config";
+import { store } from "../store";
+import {
+  listInvoiceRecords,
+  listSubscriptionRecords,
+  searchClinics,
+  serializeClinic,
+  serializeInvoiceRecord,
+  serializeSubscriptionRecord,
+} from "../services/admin";
+import type { RecordFilter } from "../services/admin";
+import { listAuditEvents, runAudited } from "../services/audit";
+import type { AuditEvent, AuditLogFilter } from "../services/audit";
+import { deactivateCoupon, getCouponUsage, saveCoupon } from "../services/coupons";
+import type { CouponDefinition } from "../services/coupons";
+import { retrieveInvoice } from "../services/invoices";
+import { issueCreditNote, voidInvoice } from "../services/refunds";
+import type { CreditNoteOptions } from "../services/refunds";
+import { cancelSubscription, retrieveSubscription, serializeSubscription } from "../services/subscriptionManagement";
+import { getAdminActor } from "../middleware/auth";
+import { stripeRequestOptionsFor } from "../middleware/idempotency";
+
+const router = Router();
+
+const limitSchema = z.coerce.number().int().min(1).max(200).default(50);
+
+const clinicSearchSchema = z.object({
+  q: z.string().optional(),
+  buyingGroup: z.string().optional(),
+  limit: limitSchema,
+});
+
+const recordListSchema = z.object({
+  customerId: z.string().optional(),
+  status: z.string().optional(),
+  limit: limitSchema,
+});
+
+const creditNoteSchema = z.object({
+  scope: z.enum(["full", "credit_card_fee", "amount"]).default("full"),
+  amount: z.number().int().positive().optional(),
+  refund: z.boolean().default(false),
+  reason: z.enum(["duplicate", "fraudulent", "order_change", "product_unsatisfactory"]).optional(),
+  memo: z.string().trim().max(500).optional(),
+});
+
+const refundSchema = creditNoteSchema.omit({ refund: true });
+
+const cancelSchema = z.object({
+  atPeriodEnd: z.boolean().default(false),
+});
+
+const couponSchema = z.object({
+  code: z.string().trim().min(1),
+  stripeCouponId: z.string().min(1),
+  active: z.boolean().default(true),
+  expiresAt: z.string().datetime().nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  maxRedemptionsPerCustomer: z.number().int().positive().nullable().optional(),
+  planTypes: z.array(z.nativeEnum(PlanType)).nullable().optional(),
+  durationYears: z
+    .array(z.union([z.literal(1), z.literal(2), z.literal(3)]))
+    .nullable()
+    .optional(),
+  billingCadences: z
+    .array(z.enum(["monthly", "annual"]))
+    .nullable()
+    .optional(),
+  firstOrderOnly: z.boolean().optional(),
+  buyingGroupOnly: z.boolean().optional(),
+  buyingGroupNames: z.array(z.string().trim().min(1)).nullable().optional(),
+  createPromotionCode: z.boolean().optional(),
+});
+
+const auditLogSchema = z.object({
+  targetId: z.string().optional(),
+  actor: z.string().optional(),
+  limit: limitSchema,
+});
+
+const audited = <T>(res: Response, event: Omit<AuditEvent, "actor">, action: () => Promise<T>): Promise<T> =>
+  runAudited({ ...event, actor: getAdminActor(res) }, action);
+
+const serializeCreditNote = (creditNote: Stripe.CreditNote) => ({
+  creditNoteId: creditNote.id,
+  invoiceId: typeof creditNote.invoice === "string" ? creditNote.invoice : creditNote.invoice.id,
+  status: creditNote.status,
+  total: creditNote.total,
+  currency: creditNote.currency,
+  refundId: typeof creditNote.refund === "string" ? creditNote.refund : (creditNote.refund?.id ?? null),
+  creditedToBalance: creditNote.customer_balance_transaction !== null,
+  pdf: creditNote.pdf,
+});
+
+router.get("/clinics", async (req, res, next) => {
+  try {
+    const payload = clinicSearchSchema.parse(req.query);
+
+    const clinics = await searchClinics({ query: payload.q, buyingGroupName: payload.buyingGroup }, payload.limit);
+
+    res.json({
+      clinics: clinics.map(serializeClinic),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/clinics/:customerId", async (req, res, next) => {
+  try {
+    const record = await store.customers.get(req.params.customerId);
+    if (!record) {
+      throw new NotFoundError("clinic_not_found", "Clinic not found.");
+    }
+
+    const [invoices, subscriptions] = await Promise.all([
+      listInvoiceRecords({ customerId: record.id, limit: 200 }),
+      listSubscriptionRecords({ customerId: record.id, limit: 200 }),
+    ]);
+
+    res.json({
+      ...serializeClinic(record),
+      invoices: invoices.map(serializeInvoiceRecord),
+      subscriptions: subscriptions.map(serializeSubscriptionRecord),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/invoices", async (req, res, next) => {
+  try {
+    const payload = recordListSchema.parse(req.query);
+
+    const invoices = await listInvoiceRecords(payload as RecordFilter);
+
+    res.json({
+      invoices: invoices.map(serializeInvoiceRecord),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/subscriptions", async (req, res, next) => {
+  try {
+    const payload = recordListSchema.parse(req.query);
+
+    const subscriptions = await listSubscriptionRecords(payload as RecordFilter);
+
+    res.json({
+      subscriptions: subscriptions.map(serializeSubscriptionRecord),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/invoices/:id/credit-notes", async (req, res, next) => {
+  try {
+    const payload = creditNoteSchema.parse(req.body);
+
+    const invoice = await retrieveInvoice(req.params.id);
+    if (!invoice) {
+      throw new NotFoundError("invoice_not_found", "Invoice not found.");
+    }
+
+    const creditNote = await audited(
+      res,
+      { action: "invoice.credit_note", targetType: "invoice", targetId: invoice.id, details: payload },
+      () => issueCreditNote(invoice, payload as CreditNoteOptions, stripeRequestOptionsFor(res, "admin")),
+    );
+
+    res.json(serializeCreditNote(creditNote));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Refunds are credit notes with the credited amount refunded, so the invoice shows what was given back
+router.post("/invoices/:id/refunds", async (req, res, next) => {
+  try {
+    const payload = refundSchema.parse(req.body);
+
+    const invoice = await retrieveInvoice(req.params.id);
+    if (!invoice) {
+      throw new NotFoundError("invoice_not_found", "Invoice not found.");
+    }
+
+    const creditNote = await audited(
+      res,
+      { action: "invoice.refund", targetType: "invoice", targetId: invoice.id, details: payload },
+      () =>
+        issueCreditNote(
+          invoice,
+          { ...payload, refund: true } as CreditNoteOptions,
+          stripeRequestOptionsFor(res, "admin"),
+        ),
+    );
+
+    res.json(serializeCreditNote(creditNote));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/invoices/:id/void", async (req, res, next) => {
+  try {
+    const invoice = await retrieveInvoice(req.params.id);
+    if (!invoice) {
+      throw new NotFoundError("invoice_not_found", "Invoice not found.");
+    }
+
+    const voided = await audited(
+      res,
+      { action: "invoice.void", targetType: "invoice", targetId: invoice.id, details: { status: invoice.status } },
+      () => voidInvoice(invoice, stripeRequestOptionsFor(res, "admin")),
+    );
+
+    res.json({
+      invoiceId: invoice.id,
+      status: voided?.status ?? "deleted",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/subscriptions/:id/cancel", async (req, res, next) => {
+  try {
+    const payload = cancelSchema.parse(req.body);
+
+    const subscription = await retrieveSubscription(req.params.id);
+    if (!subscription) {
+      throw new NotFoundError("subscription_not_found", "Subscription not found.");
+    }
+
+    const { subscription: canceled } = await audited(
+      res,
+      { action: "subscription.cancel", targetType: "subscription", targetId: subscription.id, details: payload },
+      () => cancelSubscription(subscription, payload.atPeriodEnd, stripeRequestOptionsFor(res, "admin")),
+    );
+
+    res.json(serializeSubscription(canceled));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/coupons", async (req, res, next) => {
+  try {
+    const payload = couponSchema.parse(req.body);
+
+    const coupon = await audited(
+      res,
+      { action: "coupon.save", targetType: "coupon", targetId: payload.code.toLowerCase(), details: payload },
+      () => saveCoupon(payload as CouponDefinition, stripeRequestOptionsFor(res, "admin")),
+    );
+
+    res.json(coupon);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/coupons/:code/deactivate", async (req, res, next) => {
+  try {
+    const coupon = await audited(
+      res,
+      { action: "coupon.deactivate", targetType: "coupon", targetId: req.params.code.toLowerCase() },
+      async () => {
+        const deactivated = await deactivateCoupon(req.params.code, stripeRequestOptionsFor(res, "admin"));
+        if (!deactivated) {
+          throw new NotFoundError("coupon_not_found", "Coupon not found.");
+        }
+        return deactivated;
+      },
+    );
+
+    res.json(coupon);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/coupons/:code/usage", async (req, res, next) => {
+  try {
+    res.json(await getCouponUsage(req.params.code));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/audit-log", async (req, res, next) => {
+  try {
+    const payload = auditLogSchema.parse(req.query);
+
+    res.json({
+      entries: await listAuditEvents(payload as AuditLogFilter),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,76 @@
+import { Router } from "express";
+import { z } from "zod";
+import { env } from "../config";
+import { AuthenticationError } from "../lib/errors";
+import { createSessionToken, requestLoginCode, verifyLoginCode } from "../services/auth";
+import { clearSessionCookie, getSession, requireSession, setSessionCookie } from "../middleware/auth";
+import { limitRequestsPerIp } from "../middleware/rateLimit";
+
+const router = Router();
+
+router.use(limitRequestsPerIp(env.authMaxRequestsPerIpPerMinute, 60 * 1000));
+
+const loginSchema = z.object({
+  email: z.string().email(),
+});
+
+const verifySchema = z.object({
+  email: z.string().email(),
+  code: z.string().trim().min(1),
+});
+
+router.post("/login", async (req, res, next) => {
+  try {
+    const payload = loginSchema.parse(req.body);
+
+    await requestLoginCode(payload.email);
+
+    res.json({
+      sent: true,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/verify", async (req, res, next) => {
+  try {
+    const payload = verifySchema.parse(req.body);
+
+    if (!(await verifyLoginCode(payload.email, payload.code))) {
+      throw new AuthenticationError(
+        "invalid_login_code",
+        "The code is invalid or has expired. Please request a new one.",
+      );
+    }
+
+    const { token, session } = createSessionToken(payload.email);
+    setSessionCookie(res, token, session);
+
+    // The token is also returned for clients that send it as a `Bearer` token instead of the cookie
+    res.json({
+      token,
+      email: session.email,
+      expiresAt: session.expiresAt.toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/session", requireSession, (_req, res) => {
+  const session = getSession(res);
+  res.json({
+    email: session.email,
+    expiresAt: session.expiresAt.toISOString(),
+  });
+});
+
+router.post("/logout", (_req, res) => {
+  clearSessionCookie(res);
+  res.json({
+    signedOut: true,
+  });
+});
+
+export default router;
@@ -1,12 +1,12 @@
 import { Router } from "express";
 import { z } from "zod";
 import { stripe } from "../lib/stripe";
-import { findCustomerByEmail } from "../services/stripeHelpers";
+import { resolveCustomer } from "../services/records";
+import { getSession } from "../middleware/auth";
 
 const router = Router();
 
 const customerPortalSchema = z.object({
-  email: z.string().email(),
   returnUrl: z.string().url().optional(),
 });
 
@@ -14,11 +14,11 @@ router.post("/", async (req, res, next) => {
   try {
     const payload = customerPortalSchema.parse(req.body);
 
-    const customer = await findCustomerByEmail(payload.email);
+    const customer = await resolveCustomer(getSession(res).email);
 
     // Create a billing portal session
     const session = await stripe.billingPortal.sessions.create({
-      customer: customer.id,
+      customer: customer.customerId,
       return_url: payload.returnUrl || req.headers.referer || undefined,
     });
 
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { checkReadiness } from "../services/health";
+
+const router = Router();
+
+router.get("/", (_req, res) => {
+  res.json({ status: "ok" });
+});
+
+// For load balancers and deploys: fails with 503 until Stripe and the configured catalog can be reached
+router.get("/ready", async (_req, res, next) => {
+  try {
+    const report = await checkReadiness();
+
+    res.status(report.ready ? 200 : 503).json({
+      status: report.ready ? "ready" : "not_ready",
+      checkedAt: report.checkedAt,
+      checks: report.checks,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
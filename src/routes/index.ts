@@ -3,12 +3,20 @@ import paymentsRouter from "./payments";
 import subscriptionsRouter from "./subscriptions";
 import setupIntentsRouter from "./setup-intents";
 import customerPortalRouter from "./customer-portal";
+import authRouter from "./auth";
+import adminRouter from "./admin";
+import { requireAdminApiKey, requireSession } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
 
 const router = Router();
 
-router.use("/payments", paymentsRouter);
-router.use("/subscriptions", subscriptionsRouter);
-router.use("/setup-intents", setupIntentsRouter);
-router.use("/customer-portal", customerPortalRouter);
+router.use("/auth", authRouter);
+// Every other route acts on the customer of the signed-in email
+router.use("/payments", requireSession, idempotency, paymentsRouter);
+router.use("/subscriptions", requireSession, idempotency, subscriptionsRouter);
+router.use("/setup-intents", requireSession, idempotency, setupIntentsRouter);
+router.use("/customer-portal", requireSession, customerPortalRouter);
+// Back office, for staff with an admin API key
+router.use("/admin", requireAdminApiKey, idempotency, adminRouter);
 
 export default router;
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { renderMetrics } from "../lib/metrics";
+import { requireMetricsToken } from "../middleware/auth";
+
+const router = Router();
+
+router.get("/", requireMetricsToken, (_req, res) => {
+  res.type("text/plain; version=0.0.4").send(renderMetrics());
+});
+
+export default router;
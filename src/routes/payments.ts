@@ -1,238 +1,435 @@
 import { Router } from "express";
 import { z } from "zod";
+import Stripe from "stripe";
 import { stripe } from "../lib/stripe";
+import { logger } from "../lib/logger";
+import { recordCheckoutAttempt, recordCheckoutFailure, recordCheckoutSuccess } from "../lib/metrics";
+import { NotFoundError, ValidationError } from "../lib/errors";
 import {
+  MAX_CART_LINES,
   PlanType,
-  SHIPPING_COST_CENTS,
-  CREDIT_CARD_FEE_PERCENT,
-  ONE_TIME_PRODUCT_ID,
-  SHIPPING_LINE_ITEM_DESCRIPTION,
-  BASE_CURRENCY,
+  getBuyingGroupForClinic,
+  getPaymentMethodTypesForCurrency,
+  isValidBuyingGroup,
 } from "../config";
 import {
   buildClinicMetadata,
-  findCouponDetails,
-  findCustomerByEmail,
-  isCreditFunding,
   retrievePaymentMethod,
   getOrCreateOneTimeCreditCardFeePrice,
+  toStripeAddress,
 } from "../services/stripeHelpers";
-import type { ClinicAddress } from "../services/stripeHelpers";
-import { computeOneTimeBreakdown } from "../utils/amounts";
+import { recordInvoice, resolveCustomer } from "../services/records";
+import {
+  chargeInvoice,
+  completeInvoicePayment,
+  getInvoiceDocuments,
+  getScheduledChargeDate,
+  retrieveCustomerInvoice,
+  sendInvoiceForPayment,
+} from "../services/invoices";
+import type { PaymentAuthentication } from "../services/invoices";
+import { getInvoiceItemPriceParams, quoteOneTimeOrder, serializeQuote } from "../services/quotes";
+import { getStripeDiscount, validateCoupon } from "../services/coupons";
+import { getPaymentMethodError } from "../services/paymentMethods";
+import { resolveNetTerms } from "../services/netTerms";
+import { getShippingMetadata } from "../services/shipping";
+import { getStripeTaxSettings, getTaxMetadata } from "../services/tax";
+import type { CartItem } from "../services/catalog";
+import { getSession } from "../middleware/auth";
+import { getIdempotentRequestTime, stripeRequestOptionsFor } from "../middleware/idempotency";
+import { addressSchema, addressZoneSchema } from "../utils/addresses";
 import { isDateWithinNextTwoMonths } from "../utils/dates";
 
 const router = Router();
 
-const clinicAddressSchema = z.object({
-  line1: z.string().min(1),
-  line2: z.string().optional(),
-  city: z.string().min(1),
-  state: z.string().optional(),
-  postalCode: z.string().min(1),
-  country: z.string().min(2).max(2),
-});
+const cartItemSchema = z
+  .object({
+    productId: z.string().min(1).optional(),
+    priceId: z.string().min(1).optional(),
+    quantity: z.number().int().min(1).default(1),
+  })
+  .refine((item) => item.productId || item.priceId, { message: "Either productId or priceId is required" })
+  .transform((item): CartItem => ({ productId: item.productId, priceId: item.priceId, quantity: item.quantity }));
+
+const cartItemsSchema = z.array(cartItemSchema).min(1).max(MAX_CART_LINES);
 
 const paymentIntentSchema = z.object({
-  email: z.string().email(),
   clinicName: z.string().min(1),
-  clinicAddress: clinicAddressSchema,
+  clinicAddress: addressSchema,
+  billingAddress: addressSchema.optional(),
+  shippingAddress: addressSchema.optional(),
   couponCode: z.string().trim().optional(),
   planType: z.literal(PlanType.OneTime),
+  items: cartItemsSchema.optional(),
+  shippingServiceLevel: z.enum(["standard", "expedited"]).default("standard"),
   desiredStartDate: z.string().optional(),
   buyingGroupMember: z.boolean(),
   buyingGroupName: z.string().optional(),
+  chargeOnStartDate: z.boolean().default(false),
+  collectionMethod: z.enum(["charge_automatically", "send_invoice"]).default("charge_automatically"),
+  daysUntilDue: z.number().int().min(1).max(365).optional(),
   acceptTerms: z.literal(true),
 });
 
-router.post("/", async (req, res, next) => {
+const paymentQuoteSchema = z.object({
+  couponCode: z.string().trim().optional(),
+  items: cartItemsSchema.optional(),
+  clinicAddress: addressZoneSchema.optional(),
+  billingAddress: addressZoneSchema.optional(),
+  shippingAddress: addressZoneSchema.optional(),
+  shippingServiceLevel: z.enum(["standard", "expedited"]).default("standard"),
+  collectionMethod: z.enum(["charge_automatically", "send_invoice"]).default("charge_automatically"),
+});
+
+router.post("/quote", async (req, res, next) => {
   try {
-    const payload = paymentIntentSchema.parse(req.body);
+    const payload = paymentQuoteSchema.parse(req.body);
 
-    if (payload.desiredStartDate && !isDateWithinNextTwoMonths(payload.desiredStartDate)) {
-      return res.status(400).json({
-        error: "Desired start date must be within the next two months.",
-      });
+    const customer = await resolveCustomer(getSession(res).email);
+
+    // Invoices paid by bank transfer carry no credit card fee
+    let paymentMethod: Stripe.PaymentMethod | null = null;
+    if (payload.collectionMethod === "send_invoice") {
+      const netTerms = await resolveNetTerms(customer.customerId);
+      if (!netTerms.allowed) {
+        throw new ValidationError("net_terms_not_allowed", netTerms.reason);
+      }
+    } else {
+      if (!customer.defaultPaymentMethodId) {
+        throw new ValidationError(
+          "payment_method_required",
+          "Customer does not have a default payment method. Please set up your payment method first.",
+        );
+      }
+      paymentMethod = await retrievePaymentMethod(customer.defaultPaymentMethodId);
     }
 
-    // TODO: Retrieve customer with payment method from database first, fallback to Stripe if not found
+    const coupon = await validateCoupon(payload.couponCode, {
+      customerId: customer.customerId,
+      planType: PlanType.OneTime,
+      buyingGroupMember: customer.buyingGroupMember,
+      buyingGroupName: customer.buyingGroupName,
+    });
+    const quote = await quoteOneTimeOrder({
+      items: payload.items,
+      coupon,
+      paymentMethod,
+      address: payload.shippingAddress ?? payload.clinicAddress ?? customer.shippingAddress,
+      billingAddress: payload.billingAddress ?? payload.clinicAddress ?? customer.billingAddress,
+      buyingGroup: getBuyingGroupForClinic(customer.buyingGroupMember, customer.buyingGroupName),
+      shippingServiceLevel: payload.shippingServiceLevel,
+    });
+    const paymentMethodError = paymentMethod && getPaymentMethodError(paymentMethod, quote.currency);
+    if (paymentMethodError) {
+      throw new ValidationError("payment_method_not_supported", paymentMethodError);
+    }
 
-    const customer = await findCustomerByEmail(payload.email);
+    res.json(serializeQuote(quote));
+  } catch (error) {
+    next(error);
+  }
+});
 
-    const paymentMethodId =
-      typeof customer.invoice_settings.default_payment_method === "string"
-        ? customer.invoice_settings.default_payment_method
-        : customer.invoice_settings.default_payment_method?.id;
+router.post("/", async (req, res, next) => {
+  const checkoutLabels = { plan_type: PlanType.OneTime, cadence: "none" };
+  recordCheckoutAttempt(checkoutLabels);
+  try {
+    const payload = paymentIntentSchema.parse(req.body);
 
-    if (!paymentMethodId) {
-      return res.status(400).json({
-        error: "Customer does not have a default payment method. Please set up your payment method first.",
-      });
+    if (payload.desiredStartDate && !isDateWithinNextTwoMonths(payload.desiredStartDate)) {
+      throw new ValidationError("invalid_start_date", "Desired start date must be within the next two months.");
+    }
+
+    if (payload.chargeOnStartDate && !payload.desiredStartDate) {
+      throw new ValidationError("start_date_required", "A desired start date is required to charge on the start date.");
     }
 
-    const paymentMethod = await retrievePaymentMethod(paymentMethodId);
-    if (paymentMethod.type !== "card") {
-      return res.status(400).json({ error: "Only card payment methods are supported." });
+    if (payload.chargeOnStartDate && payload.collectionMethod === "send_invoice") {
+      throw new ValidationError(
+        "charge_on_start_date_not_allowed",
+        "Orders paid by invoice can't be charged on the start date.",
+      );
     }
 
-    const cardFundingIsCredit = isCreditFunding(paymentMethod);
-    const couponDetails = await findCouponDetails(payload.couponCode);
+    if (!isValidBuyingGroup(payload.buyingGroupMember, payload.buyingGroupName)) {
+      throw new ValidationError(
+        "unknown_buying_group",
+        "Buying group not recognized. Please choose one of the supported buying groups.",
+      );
+    }
+    const customer = await resolveCustomer(getSession(res).email);
 
-    const couponPercent = couponDetails?.percentOff ?? undefined;
-    const couponAmountOff =
-      couponDetails?.amountOff && couponDetails.currency === BASE_CURRENCY ? couponDetails.amountOff : undefined;
+    // Invoices paid by bank transfer carry no credit card fee
+    let paymentMethod: Stripe.PaymentMethod | null = null;
+    let daysUntilDue: number | undefined;
+    if (payload.collectionMethod === "send_invoice") {
+      const netTerms = await resolveNetTerms(customer.customerId, payload.daysUntilDue);
+      if (!netTerms.allowed) {
+        throw new ValidationError("net_terms_not_allowed", netTerms.reason);
+      }
+      daysUntilDue = netTerms.daysUntilDue;
+    } else {
+      if (!customer.defaultPaymentMethodId) {
+        throw new ValidationError(
+          "payment_method_required",
+          "Customer does not have a default payment method. Please set up your payment method first.",
+        );
+      }
+      paymentMethod = await retrievePaymentMethod(customer.defaultPaymentMethodId);
+    }
 
-    const clinicMetadata = buildClinicMetadata(payload.clinicName, payload.clinicAddress as ClinicAddress, {
+    const billingAddress = payload.billingAddress ?? payload.clinicAddress;
+    const shippingAddress = payload.shippingAddress ?? payload.clinicAddress;
+    const clinicMetadata = buildClinicMetadata(payload.clinicName, payload.clinicAddress, {
       buyingGroupMember: payload.buyingGroupMember,
       buyingGroupName: payload.buyingGroupName,
       desiredStartDate: payload.desiredStartDate,
+      termsAcceptedAt: getIdempotentRequestTime(res),
     });
 
-    // Retrieve the one-time product price
-    const oneTimeProduct = await stripe.products.retrieve(ONE_TIME_PRODUCT_ID);
-    const oneTimePrice = await stripe.prices.retrieve(oneTimeProduct.default_price as string);
-
-    if (oneTimePrice.currency !== BASE_CURRENCY) {
-      throw new Error(`Price currency ${oneTimePrice.currency} does not match expected ${BASE_CURRENCY}`);
-    }
-
-    if (!oneTimePrice.unit_amount) {
-      throw new Error("One-time price must have a unit amount.");
-    }
-
-    if (oneTimePrice.recurring) {
-      throw new Error("One-time price must not be recurring.");
-    }
-
-    const baseAmount = oneTimePrice.unit_amount;
-    const breakdown = computeOneTimeBreakdown({
-      couponPercent: couponPercent ?? undefined,
-      couponAmountOff: couponDetails?.amountOff ?? undefined,
-      appliesCreditCardFee: cardFundingIsCredit,
-      baseAmount,
+    const coupon = await validateCoupon(payload.couponCode, {
+      customerId: customer.customerId,
+      planType: PlanType.OneTime,
+      buyingGroupMember: payload.buyingGroupMember,
+      buyingGroupName: payload.buyingGroupName,
     });
+    const quote = await quoteOneTimeOrder({
+      items: payload.items,
+      coupon,
+      paymentMethod,
+      address: shippingAddress,
+      billingAddress,
+      buyingGroup: getBuyingGroupForClinic(payload.buyingGroupMember, payload.buyingGroupName),
+      shippingServiceLevel: payload.shippingServiceLevel,
+    });
+    const paymentMethodError = paymentMethod && getPaymentMethodError(paymentMethod, quote.currency);
+    if (paymentMethodError) {
+      throw new ValidationError("payment_method_not_supported", paymentMethodError);
+    }
+    const { breakdown, couponPercent, coupon: couponDetails } = quote;
+    const requestOptions = stripeRequestOptionsFor(res, "payments");
+    const taxSettings = await getStripeTaxSettings(quote.tax, requestOptions);
 
     // Create invoice
-    const invoice = await stripe.invoices.create({
-      customer: customer.id,
-      default_payment_method: paymentMethod.id,
-      collection_method: "charge_automatically",
-      currency: BASE_CURRENCY,
-      shipping_details: {
-        name: payload.clinicName,
-        address: {
-          line1: payload.clinicAddress.line1,
-          line2: payload.clinicAddress.line2,
-          city: payload.clinicAddress.city,
-          state: payload.clinicAddress.state,
-          postal_code: payload.clinicAddress.postalCode,
-          country: payload.clinicAddress.country,
+    const invoice = await stripe.invoices.create(
+      {
+        customer: customer.customerId,
+        ...(paymentMethod
+          ? {
+              default_payment_method: paymentMethod.id,
+              collection_method: "charge_automatically",
+              payment_settings: {
+                payment_method_types: getPaymentMethodTypesForCurrency(quote.currency),
+              },
+            }
+          : {
+              collection_method: "send_invoice",
+              days_until_due: daysUntilDue,
+            }),
+        auto_advance: false,
+        currency: quote.currency,
+        automatic_tax: taxSettings.automaticTax,
+        shipping_details: {
+          name: payload.clinicName,
+          address: toStripeAddress(shippingAddress),
+        },
+        metadata: {
+          plan_type: PlanType.OneTime,
+          clinic_name: payload.clinicName,
+          clinic_timezone: clinicMetadata.clinicTimezone,
+          coupon_code: couponDetails?.code ?? "",
+          coupon_percent_off: couponPercent?.toString() ?? "",
+          coupon_amount_off: quote.couponAmountOff?.toString() ?? "",
+          ...getShippingMetadata(quote.shipping),
+          shipping_amount_cents: breakdown.shippingAmount.toString(),
+          credit_card_fee_cents: breakdown.creditCardFeeAmount.toString(),
+          fee_percent_applied: quote.surcharge.percent.toString(),
+          surcharge_rule: quote.surcharge.ruleId,
+          surcharge_reason: quote.surcharge.reason,
+          base_amount_cents: breakdown.baseAmount.toString(),
+          order_items: quote.lines.map((line) => `${line.price.id}:${line.quantity}`).join("|"),
+          discount_amount_cents: breakdown.discountAmount.toString(),
+          ...getTaxMetadata(quote.tax),
+          collection_method: payload.collectionMethod,
+          days_until_due: daysUntilDue?.toString() ?? "",
+          payment_method_type: paymentMethod?.type ?? "",
+          payment_method_funding: paymentMethod?.card?.funding ?? "unknown",
+          buying_group_member: String(payload.buyingGroupMember),
+          buying_group_name: payload.buyingGroupName ?? "",
+          buying_group_discount_percent: quote.buyingGroupPricing?.discountPercent?.toString() ?? "",
+          desired_start_date: payload.desiredStartDate ?? "",
+          terms_accepted_at: clinicMetadata.termsAcceptedAt,
         },
       },
-      metadata: {
-        plan_type: PlanType.OneTime,
-        clinic_name: payload.clinicName,
-        clinic_timezone: clinicMetadata.clinicTimezone,
-        coupon_code: payload.couponCode ?? "",
-        coupon_percent_off: couponPercent?.toString() ?? "",
-        coupon_amount_off: couponDetails?.amountOff?.toString() ?? "",
-        shipping_amount_cents: breakdown.shippingAmount.toString(),
-        credit_card_fee_cents: breakdown.creditCardFeeAmount.toString(),
-        fee_percent_applied: cardFundingIsCredit ? CREDIT_CARD_FEE_PERCENT.toString() : "0",
-        base_amount_cents: breakdown.baseAmount.toString(),
-        discount_amount_cents: breakdown.discountAmount.toString(),
-        payment_method_funding: paymentMethod.card?.funding ?? "unknown",
-        buying_group_member: String(payload.buyingGroupMember),
-        buying_group_name: payload.buyingGroupName ?? "",
-        desired_start_date: payload.desiredStartDate ?? "",
-        terms_accepted_at: clinicMetadata.termsAcceptedAt,
-      },
-    });
-    console.log("one time price invoice item created", invoice.id);
-
-    // Add main product line item
-    await stripe.invoiceItems.create({
-      customer: customer.id,
-      invoice: invoice.id,
-      price: oneTimePrice.id,
-      currency: BASE_CURRENCY,
-      quantity: 1,
+      requestOptions("invoice.create"),
+    );
+    logger.info("invoice.created", {
+      invoiceId: invoice.id,
+      customerId: customer.customerId,
+      planType: PlanType.OneTime,
+      collectionMethod: payload.collectionMethod,
+      currency: quote.currency,
     });
 
-    console.log("one time price invoice item created", invoice.id);
+    // Add a line item per ordered product
+    for (const [index, line] of quote.lines.entries()) {
+      await stripe.invoiceItems.create(
+        {
+          customer: customer.customerId,
+          invoice: invoice.id,
+          ...getInvoiceItemPriceParams(quote, line),
+          currency: quote.currency,
+          quantity: line.quantity,
+          tax_rates: taxSettings.taxRates,
+        },
+        requestOptions(index === 0 ? "invoice_item.product" : `invoice_item.product.${index}`),
+      );
+      logger.info("invoice.item_created", {
+        invoiceId: invoice.id,
+        item: "product",
+        priceId: line.price.id,
+        quantity: line.quantity,
+      });
+    }
 
     // Add shipping as invoice item if applicable
-    if (SHIPPING_COST_CENTS > 0) {
-      await stripe.invoiceItems.create({
-        customer: customer.id,
-        invoice: invoice.id,
-        amount: SHIPPING_COST_CENTS,
-        currency: BASE_CURRENCY,
-        description: SHIPPING_LINE_ITEM_DESCRIPTION,
+    if (breakdown.shippingAmount > 0) {
+      await stripe.invoiceItems.create(
+        {
+          customer: customer.customerId,
+          invoice: invoice.id,
+          amount: breakdown.shippingAmount,
+          currency: quote.currency,
+          description: quote.shipping.displayName,
+          tax_rates: taxSettings.taxRates,
+        },
+        requestOptions("invoice_item.shipping"),
+      );
+      logger.info("invoice.item_created", {
+        invoiceId: invoice.id,
+        item: "shipping",
+        amount: breakdown.shippingAmount,
       });
-      console.log("shipping invoice item created", invoice.id);
     }
 
     // Add credit card fee as invoice item if applicable
     if (breakdown.creditCardFeeAmount > 0) {
-      const feePriceId = await getOrCreateOneTimeCreditCardFeePrice(breakdown.creditCardFeeAmount);
-      await stripe.invoiceItems.create({
-        customer: customer.id,
-        invoice: invoice.id,
-        price: feePriceId,
-        currency: BASE_CURRENCY,
-        quantity: 1,
+      const feePriceId = await getOrCreateOneTimeCreditCardFeePrice(
+        breakdown.creditCardFeeAmount,
+        quote.surcharge.percent,
+        quote.currency,
+        requestOptions,
+      );
+      await stripe.invoiceItems.create(
+        {
+          customer: customer.customerId,
+          invoice: invoice.id,
+          price: feePriceId,
+          currency: quote.currency,
+          quantity: 1,
+        },
+        requestOptions("invoice_item.credit_card_fee"),
+      );
+      logger.info("invoice.item_created", {
+        invoiceId: invoice.id,
+        item: "credit_card_fee",
+        amount: breakdown.creditCardFeeAmount,
       });
-      console.log("credit card fee invoice item created", invoice.id);
     }
 
     // Apply coupon if provided
-    if (couponDetails?.couponId) {
-      await stripe.invoices.update(invoice.id, {
-        discounts: [
-          {
-            coupon: couponDetails.couponId,
-          },
-        ],
-      });
+    if (couponDetails) {
+      await stripe.invoices.update(
+        invoice.id,
+        {
+          discounts: [getStripeDiscount(couponDetails)],
+        },
+        requestOptions("invoice.discount"),
+      );
+      logger.info("invoice.coupon_applied", { invoiceId: invoice.id, couponCode: couponDetails.code });
     }
 
-    // Finalize and pay the invoice
-    const finalizedInvoice = await stripe.invoices.finalizeInvoice(invoice.id, {
-      auto_advance: true,
-    });
-
-    // Pay the invoice (this will charge the default payment method)
-    const paidInvoice = await stripe.invoices.pay(finalizedInvoice.id, {
-      payment_method: paymentMethod.id,
-    });
+    const scheduledChargeAt = payload.chargeOnStartDate
+      ? getScheduledChargeDate(payload.desiredStartDate!, clinicMetadata.clinicTimezone, getIdempotentRequestTime(res))
+      : null;
 
-    // Get the payment intent status from the invoice
-    let status = "succeeded";
-    if (paidInvoice.payment_intent) {
-      const paymentIntentId =
-        typeof paidInvoice.payment_intent === "string" ? paidInvoice.payment_intent : paidInvoice.payment_intent.id;
-      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-      status = paymentIntent.status;
-    } else if (paidInvoice.status === "paid") {
-      status = "succeeded";
-    } else if (paidInvoice.status === "open") {
-      status = "processing";
+    let finalInvoice: Stripe.Invoice = invoice;
+    let status = "scheduled";
+    let authentication: PaymentAuthentication | null = null;
+    if (!paymentMethod) {
+      finalInvoice = await sendInvoiceForPayment(invoice.id, requestOptions);
+      status = finalInvoice.status;
+    } else if (scheduledChargeAt) {
+      // Leave the invoice as a draft; it is finalized and charged on the desired start date
+      await recordInvoice(invoice, PlanType.OneTime, { paymentMethodId: paymentMethod.id, scheduledChargeAt });
+      logger.info("invoice.charge_scheduled", {
+        invoiceId: invoice.id,
+        scheduledChargeAt: scheduledChargeAt.toISOString(),
+      });
     } else {
-      status = "failed";
+      ({
+        invoice: finalInvoice,
+        status,
+        authentication,
+      } = await chargeInvoice(invoice.id, paymentMethod.id, requestOptions));
     }
 
+    recordCheckoutSuccess(checkoutLabels, { amount: breakdown.creditCardFeeAmount, currency: quote.currency });
     res.json({
+      invoiceId: invoice.id,
       amount: breakdown.totalAmount,
-      currency: BASE_CURRENCY,
+      currency: quote.currency,
       shippingAmount: breakdown.shippingAmount,
+      shippingServiceLevel: quote.shipping.serviceLevel,
       creditCardFeeAmount: breakdown.creditCardFeeAmount,
+      taxAmount: breakdown.taxAmount,
+      items: quote.lines.map((line) => ({
+        priceId: line.price.id,
+        quantity: line.quantity,
+        unitAmount: line.unitAmount,
+      })),
       coupon: {
         percentOff: couponPercent ?? null,
-        amountOff: couponAmountOff ?? null,
+        amountOff: quote.couponAmountOff ?? null,
       },
       clinicTimezone: clinicMetadata.clinicTimezone,
-      cardFunding: paymentMethod.card?.funding ?? "unknown",
+      collectionMethod: payload.collectionMethod,
+      paymentMethodType: paymentMethod?.type ?? null,
+      cardFunding: paymentMethod?.card?.funding ?? "unknown",
+      scheduledChargeAt: scheduledChargeAt?.toISOString() ?? null,
+      // Bank debits stay `processing` for a few days until the payment settles; invoices sent for
+      // payment stay `open` until the clinic pays them
       status,
+      ...getInvoiceDocuments(finalInvoice),
+      // When the card requires authentication, the frontend completes it and then calls `/:invoiceId/complete`
+      authentication,
+    });
+  } catch (error) {
+    recordCheckoutFailure(checkoutLabels, error);
+    next(error);
+  }
+});
+
+router.post("/:invoiceId/complete", async (req, res, next) => {
+  try {
+    const customer = await resolveCustomer(getSession(res).email);
+    const invoice = await retrieveCustomerInvoice(req.params.invoiceId, customer.customerId);
+    if (!invoice) {
+      throw new NotFoundError("invoice_not_found", "Invoice not found.");
+    }
+    if (invoice.status === "draft") {
+      throw new ValidationError("invoice_not_charged", "Invoice has not been charged yet.");
+    }
+
+    const completed = await completeInvoicePayment(invoice, stripeRequestOptionsFor(res, "payments"));
+
+    res.json({
+      invoiceId: completed.invoice.id,
+      invoiceStatus: completed.invoice.status,
+      amountPaid: completed.invoice.amount_paid,
+      currency: completed.invoice.currency,
+      status: completed.status,
+      authentication: completed.authentication,
     });
   } catch (error) {
     next(error);
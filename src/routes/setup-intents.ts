@@ -1,29 +1,35 @@
 import { Router } from "express";
 import { z } from "zod";
 import { stripe } from "../lib/stripe";
+import { NotFoundError, ValidationError } from "../lib/errors";
+import { logger } from "../lib/logger";
+import { isValidBuyingGroup } from "../config";
 import {
   buildClinicMetadata,
-  ensureDefaultPaymentMethodSet,
+  findCustomerIdByEmail,
   getOrCreateCustomer,
-  retrievePaymentMethod,
+  getPaymentMethodCustomerId,
+  retrieveRequestedPaymentMethod,
+  toStripeAddress,
 } from "../services/stripeHelpers";
-import type { ClinicAddress } from "../services/stripeHelpers";
+import { recordCustomer, resolveCustomer } from "../services/records";
+import { getPaymentMethodError, getSetupIntentPaymentMethodParams } from "../services/paymentMethods";
+import {
+  SET_AS_DEFAULT_METADATA_KEY,
+  retrieveCustomerSetupIntent,
+  serializeSetupIntent,
+} from "../services/setupIntents";
+import { getSession } from "../middleware/auth";
+import { getIdempotentRequestTime, stripeRequestOptionsFor } from "../middleware/idempotency";
+import { addressSchema } from "../utils/addresses";
 
 const router = Router();
 
-const clinicAddressSchema = z.object({
-  line1: z.string().min(1),
-  line2: z.string().optional(),
-  city: z.string().min(1),
-  state: z.string().optional(),
-  postalCode: z.string().min(1),
-  country: z.string().min(2).max(2),
-});
-
 const createSetupIntentSchema = z.object({
-  email: z.string().email(),
   clinicName: z.string().min(1),
-  clinicAddress: clinicAddressSchema,
+  clinicAddress: addressSchema,
+  billingAddress: addressSchema.optional(),
+  shippingAddress: addressSchema.optional(),
   paymentMethodId: z.string().min(1),
   buyingGroupMember: z.boolean(),
   buyingGroupName: z.string().optional(),
@@ -33,48 +39,107 @@ const createSetupIntentSchema = z.object({
 router.post("/", async (req, res, next) => {
   try {
     const payload = createSetupIntentSchema.parse(req.body);
+    const { email } = getSession(res);
+
+    if (!isValidBuyingGroup(payload.buyingGroupMember, payload.buyingGroupName)) {
+      throw new ValidationError(
+        "unknown_buying_group",
+        "Buying group not recognized. Please choose one of the supported buying groups.",
+      );
+    }
+
+    const paymentMethod = await retrieveRequestedPaymentMethod(payload.paymentMethodId);
+    const paymentMethodError = getPaymentMethodError(paymentMethod);
+    if (paymentMethodError) {
+      throw new ValidationError("payment_method_not_supported", paymentMethodError);
+    }
 
-    const clinicMetadata = buildClinicMetadata(payload.clinicName, payload.clinicAddress as ClinicAddress, {
+    // Checked before the customer is created or updated, so a rejected request changes nothing
+    const ownerId = getPaymentMethodCustomerId(paymentMethod);
+    if (ownerId && ownerId !== (await findCustomerIdByEmail(email))) {
+      throw new ValidationError("payment_method_in_use", "This payment method is already in use by another account.");
+    }
+
+    const requestOptions = stripeRequestOptionsFor(res, "setup-intents");
+
+    const clinicMetadata = buildClinicMetadata(payload.clinicName, payload.clinicAddress, {
       buyingGroupMember: payload.buyingGroupMember,
       buyingGroupName: payload.buyingGroupName,
       desiredStartDate: payload.desiredStartDate,
+      termsAcceptedAt: getIdempotentRequestTime(res),
     });
 
-    const customer = await getOrCreateCustomer(payload.email, clinicMetadata, {
-      name: payload.clinicName,
-      address: {
-        line1: payload.clinicAddress.line1,
-        line2: payload.clinicAddress.line2 ?? undefined,
-        city: payload.clinicAddress.city,
-        state: payload.clinicAddress.state,
-        postal_code: payload.clinicAddress.postalCode,
-        country: payload.clinicAddress.country,
+    const billingAddress = payload.billingAddress ?? payload.clinicAddress;
+    const shippingAddress = payload.shippingAddress ?? payload.clinicAddress;
+    const customer = await getOrCreateCustomer(
+      email,
+      clinicMetadata,
+      {
+        address: toStripeAddress(billingAddress),
+        shipping: { name: payload.clinicName, address: toStripeAddress(shippingAddress) },
       },
-    });
+      requestOptions,
+    );
 
-    const paymentMethod = await retrievePaymentMethod(payload.paymentMethodId);
-
-    // Update customer with payment method to be used for future payments
-    await ensureDefaultPaymentMethodSet(customer.id, paymentMethod);
+    await recordCustomer(customer, {
+      email,
+      clinicMetadata,
+      address: payload.clinicAddress,
+      billingAddress,
+      shippingAddress,
+    });
 
-    // Create Setup Intent for collecting payment method
-    const setupIntent = await stripe.setupIntents.create({
-      customer: customer.id,
-      payment_method_types: ["card"],
-      payment_method: payload.paymentMethodId,
-      metadata: {
-        email: payload.email,
-        clinic_name: payload.clinicName,
+    // The frontend confirms the setup intent, which attaches the payment method to the customer. It becomes
+    // the default payment method once the setup intent succeeds (see the `setup_intent.succeeded` webhook).
+    const setupIntent = await stripe.setupIntents.create(
+      {
+        customer: customer.id,
+        ...getSetupIntentPaymentMethodParams(paymentMethod),
+        payment_method: payload.paymentMethodId,
+        usage: "off_session",
+        metadata: {
+          email,
+          clinic_name: payload.clinicName,
+          [SET_AS_DEFAULT_METADATA_KEY]: "true",
+        },
       },
+      requestOptions("setup_intent.create"),
+    );
+    logger.info("setup_intent.created", {
+      setupIntentId: setupIntent.id,
+      customerId: customer.id,
+      paymentMethodType: paymentMethod.type,
     });
 
     res.json({
+      ...serializeSetupIntent(setupIntent),
       clientSecret: setupIntent.client_secret,
-      customerId: customer.id,
+      paymentMethodType: paymentMethod.type,
     });
   } catch (error) {
     next(error as Error);
   }
 });
 
+// Bank accounts verified with microdeposits take days to succeed; the frontend polls this until then
+router.get("/:id", async (req, res, next) => {
+  try {
+    const customer = await resolveCustomer(getSession(res).email);
+    const setupIntent = await retrieveCustomerSetupIntent(req.params.id, customer.customerId);
+    if (!setupIntent) {
+      throw new NotFoundError("setup_intent_not_found", "Setup intent not found.");
+    }
+
+    const serialized = serializeSetupIntent(setupIntent);
+    res.json({
+      ...serialized,
+      // Becomes true once the `setup_intent.succeeded` webhook has been handled
+      isDefaultPaymentMethod:
+        serialized.paymentMethodId !== null && serialized.paymentMethodId === customer.defaultPaymentMethodId,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -2,208 +2,497 @@ import { Router } from "express";
 import { z } from "zod";
 import Stripe from "stripe";
 import { stripe } from "../lib/stripe";
+import { logger } from "../lib/logger";
+import { recordCheckoutAttempt, recordCheckoutFailure, recordCheckoutSuccess } from "../lib/metrics";
+import { NotFoundError, ValidationError } from "../lib/errors";
 import {
-  BASE_CURRENCY,
   PlanType,
-  SHIPPING_COST_CENTS,
-  CREDIT_CARD_FEE_PERCENT,
   TRIAL_PERIOD_DAYS,
-  SHIPPING_LINE_ITEM_DESCRIPTION,
-  getSubscriptionPlan,
+  getBuyingGroupForClinic,
+  getPaymentMethodTypesForCurrency,
+  isValidBuyingGroup,
 } from "../config";
 import {
   buildClinicMetadata,
-  findCouponDetails,
-  findCustomerByEmail,
-  isCreditFunding,
   retrievePaymentMethod,
   getOrCreateCreditCardFeePrice,
+  getSubscriptionItems,
 } from "../services/stripeHelpers";
-import type { ClinicAddress } from "../services/stripeHelpers";
-import { percentageToAmount } from "../utils/amounts";
+import { recordSubscription, resolveCustomer } from "../services/records";
+import { getSubscriptionItemPriceParams, quoteSubscription, serializeQuote } from "../services/quotes";
+import { getStripeDiscount, validateCoupon } from "../services/coupons";
+import { getPaymentMethodError } from "../services/paymentMethods";
+import { getShippingMetadata, getSubscriptionShippingPriceData } from "../services/shipping";
+import { getInvoiceDocuments, getPaymentAuthentication } from "../services/invoices";
+import { resolveNetTerms } from "../services/netTerms";
+import { getStripeTaxSettings, getTaxMetadata } from "../services/tax";
+import {
+  buildTermParams,
+  computeSubscriptionTerm,
+  getBillingStartDate,
+  setAutoRenew,
+} from "../services/subscriptionTerms";
+import {
+  cancelSubscription,
+  changeSubscriptionPlan,
+  previewSubscriptionPlanChange,
+  retrieveCustomerSubscription,
+  serializeSubscription,
+} from "../services/subscriptionManagement";
 import { isDateWithinNextTwoMonths } from "../utils/dates";
+import { getSession } from "../middleware/auth";
+import { getIdempotentRequestTime, stripeRequestOptionsFor } from "../middleware/idempotency";
+import { addressSchema, addressZoneSchema } from "../utils/addresses";
 
 const router = Router();
 
-const clinicAddressSchema = z.object({
-  line1: z.string().optional(),
-  line2: z.string().optional(),
-  city: z.string().min(1),
-  state: z.string().optional(),
-  postalCode: z.string().min(1),
-  country: z.string().min(2).max(2),
-});
-
 const subscriptionSchema = z.object({
-  email: z.string().email(),
   clinicName: z.string().min(1),
-  clinicAddress: clinicAddressSchema,
+  clinicAddress: addressSchema,
+  billingAddress: addressSchema.optional(),
+  shippingAddress: addressSchema.optional(),
   couponCode: z.string().optional(),
   planType: z.literal(PlanType.Subscription),
   durationYears: z.union([z.literal(1), z.literal(2), z.literal(3)]),
   billingCadence: z.enum(["monthly", "annual"]),
+  shippingServiceLevel: z.enum(["standard", "expedited"]).default("standard"),
   desiredStartDate: z.string().optional(),
   buyingGroupMember: z.boolean(),
   buyingGroupName: z.string().optional(),
+  autoRenew: z.boolean().default(false),
+  collectionMethod: z.enum(["charge_automatically", "send_invoice"]).default("charge_automatically"),
+  daysUntilDue: z.number().int().min(1).max(365).optional(),
   acceptTerms: z.literal(true),
 });
 
-const ensureCurrencyMatches = (price: Stripe.Price): void => {
-  if (price.currency !== BASE_CURRENCY) {
-    throw new Error(`Price currency ${price.currency} does not match expected ${BASE_CURRENCY}`);
-  }
+const subscriptionQuoteSchema = z.object({
+  couponCode: z.string().optional(),
+  clinicAddress: addressZoneSchema.optional(),
+  billingAddress: addressZoneSchema.optional(),
+  shippingAddress: addressZoneSchema.optional(),
+  shippingServiceLevel: z.enum(["standard", "expedited"]).default("standard"),
+  durationYears: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  billingCadence: z.enum(["monthly", "annual"]),
+  collectionMethod: z.enum(["charge_automatically", "send_invoice"]).default("charge_automatically"),
+});
+
+// Requests that fail validation still count as checkout attempts; unexpected cadences share one metric label
+const getCadenceLabel = (value: unknown): string => {
+  const cadence = subscriptionSchema.shape.billingCadence.safeParse(value);
+  return cadence.success ? cadence.data : "unknown";
 };
 
-router.post("/", async (req, res, next) => {
+router.post("/quote", async (req, res, next) => {
   try {
-    const payload = subscriptionSchema.parse(req.body);
-
-    if (payload.desiredStartDate && !isDateWithinNextTwoMonths(payload.desiredStartDate)) {
-      return res.status(400).json({
-        error: "Desired start date must be within the next two months.",
-      });
-    }
+    const payload = subscriptionQuoteSchema.parse(req.body);
 
-    const customer = await findCustomerByEmail(payload.email);
+    const customer = await resolveCustomer(getSession(res).email);
 
-    if (!customer.invoice_settings.default_payment_method) {
-      return res.status(400).json({
-        error: "Customer does not have a default payment method. Please set up your payment method first.",
-      });
+    // Invoices paid by bank transfer carry no credit card fee
+    let paymentMethod: Stripe.PaymentMethod | null = null;
+    if (payload.collectionMethod === "send_invoice") {
+      const netTerms = await resolveNetTerms(customer.customerId);
+      if (!netTerms.allowed) {
+        throw new ValidationError("net_terms_not_allowed", netTerms.reason);
+      }
+    } else {
+      if (!customer.defaultPaymentMethodId) {
+        throw new ValidationError(
+          "payment_method_required",
+          "Customer does not have a default payment method. Please set up your payment method first.",
+        );
+      }
+      paymentMethod = await retrievePaymentMethod(customer.defaultPaymentMethodId);
     }
 
-    const paymentMethodId =
-      typeof customer.invoice_settings.default_payment_method === "string"
-        ? customer.invoice_settings.default_payment_method
-        : customer.invoice_settings.default_payment_method.id;
-
-    const paymentMethod = await retrievePaymentMethod(paymentMethodId);
-    if (paymentMethod.type !== "card") {
-      return res.status(400).json({ error: "Only card payment methods are supported." });
+    const coupon = await validateCoupon(payload.couponCode, {
+      customerId: customer.customerId,
+      planType: PlanType.Subscription,
+      durationYears: payload.durationYears,
+      billingCadence: payload.billingCadence,
+      buyingGroupMember: customer.buyingGroupMember,
+      buyingGroupName: customer.buyingGroupName,
+    });
+    const quote = await quoteSubscription({
+      durationYears: payload.durationYears,
+      billingCadence: payload.billingCadence,
+      coupon,
+      paymentMethod,
+      address: payload.shippingAddress ?? payload.clinicAddress ?? customer.shippingAddress,
+      billingAddress: payload.billingAddress ?? payload.clinicAddress ?? customer.billingAddress,
+      buyingGroup: getBuyingGroupForClinic(customer.buyingGroupMember, customer.buyingGroupName),
+      shippingServiceLevel: payload.shippingServiceLevel,
+    });
+    const paymentMethodError = paymentMethod && getPaymentMethodError(paymentMethod, quote.currency);
+    if (paymentMethodError) {
+      throw new ValidationError("payment_method_not_supported", paymentMethodError);
     }
 
-    const plan = getSubscriptionPlan(payload.durationYears, payload.billingCadence);
-    const price = await stripe.prices.retrieve(plan.priceId!);
-    ensureCurrencyMatches(price);
+    res.json({
+      ...serializeQuote(quote),
+      interval: quote.price.recurring?.interval ?? null,
+      intervalCount: quote.price.recurring?.interval_count ?? null,
+      trialPeriodDays: TRIAL_PERIOD_DAYS,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/", async (req, res, next) => {
+  const checkoutLabels = { plan_type: PlanType.Subscription, cadence: getCadenceLabel(req.body?.billingCadence) };
+  recordCheckoutAttempt(checkoutLabels);
+  try {
+    const payload = subscriptionSchema.parse(req.body);
 
-    if (!price.unit_amount || !price.recurring) {
-      throw new Error("Subscription price must have a recurring unit amount.");
+    if (payload.desiredStartDate && !isDateWithinNextTwoMonths(payload.desiredStartDate)) {
+      throw new ValidationError("invalid_start_date", "Desired start date must be within the next two months.");
     }
 
-    const planUnitAmount = price.unit_amount;
-    const creditFunding = isCreditFunding(paymentMethod);
-    const couponDetails = await findCouponDetails(payload.couponCode);
-
-    let discountedPlanAmount = planUnitAmount;
-    const effectiveCouponPercent = couponDetails?.percentOff ?? null;
-    let effectiveCouponAmount = 0;
+    if (!isValidBuyingGroup(payload.buyingGroupMember, payload.buyingGroupName)) {
+      throw new ValidationError(
+        "unknown_buying_group",
+        "Buying group not recognized. Please choose one of the supported buying groups.",
+      );
+    }
+    const customer = await resolveCustomer(getSession(res).email);
 
-    if (couponDetails?.percentOff) {
-      effectiveCouponAmount = percentageToAmount(planUnitAmount, couponDetails.percentOff);
-      discountedPlanAmount = Math.max(planUnitAmount - effectiveCouponAmount, 0);
-    } else if (couponDetails?.amountOff && couponDetails.currency === BASE_CURRENCY) {
-      effectiveCouponAmount = Math.min(couponDetails.amountOff, planUnitAmount);
-      discountedPlanAmount = Math.max(planUnitAmount - effectiveCouponAmount, 0);
+    // Invoices paid by bank transfer carry no credit card fee
+    let paymentMethod: Stripe.PaymentMethod | null = null;
+    let daysUntilDue: number | undefined;
+    if (payload.collectionMethod === "send_invoice") {
+      const netTerms = await resolveNetTerms(customer.customerId, payload.daysUntilDue);
+      if (!netTerms.allowed) {
+        throw new ValidationError("net_terms_not_allowed", netTerms.reason);
+      }
+      daysUntilDue = netTerms.daysUntilDue;
+    } else {
+      if (!customer.defaultPaymentMethodId) {
+        throw new ValidationError(
+          "payment_method_required",
+          "Customer does not have a default payment method. Please set up your payment method first.",
+        );
+      }
+      paymentMethod = await retrievePaymentMethod(customer.defaultPaymentMethodId);
     }
 
-    const creditCardFeeAmount = creditFunding ? percentageToAmount(discountedPlanAmount, CREDIT_CARD_FEE_PERCENT) : 0;
+    const billingAddress = payload.billingAddress ?? payload.clinicAddress;
+    const shippingAddress = payload.shippingAddress ?? payload.clinicAddress;
+    const coupon = await validateCoupon(payload.couponCode, {
+      customerId: customer.customerId,
+      planType: PlanType.Subscription,
+      durationYears: payload.durationYears,
+      billingCadence: payload.billingCadence,
+      buyingGroupMember: payload.buyingGroupMember,
+      buyingGroupName: payload.buyingGroupName,
+    });
+    const quote = await quoteSubscription({
+      durationYears: payload.durationYears,
+      billingCadence: payload.billingCadence,
+      coupon,
+      paymentMethod,
+      address: shippingAddress,
+      billingAddress,
+      buyingGroup: getBuyingGroupForClinic(payload.buyingGroupMember, payload.buyingGroupName),
+      shippingServiceLevel: payload.shippingServiceLevel,
+    });
+    const paymentMethodError = paymentMethod && getPaymentMethodError(paymentMethod, quote.currency);
+    if (paymentMethodError) {
+      throw new ValidationError("payment_method_not_supported", paymentMethodError);
+    }
+    const price = quote.price;
+    const requestOptions = stripeRequestOptionsFor(res, "subscriptions");
+    const taxSettings = await getStripeTaxSettings(quote.tax, requestOptions);
+    const creditCardFeeAmount = quote.breakdown.creditCardFeeAmount;
 
-    const clinicMetadata = buildClinicMetadata(payload.clinicName, payload.clinicAddress as ClinicAddress, {
+    const clinicMetadata = buildClinicMetadata(payload.clinicName, payload.clinicAddress, {
       buyingGroupMember: payload.buyingGroupMember,
       buyingGroupName: payload.buyingGroupName,
       desiredStartDate: payload.desiredStartDate,
+      termsAcceptedAt: getIdempotentRequestTime(res),
     });
 
     let feePriceId: string | undefined;
     if (creditCardFeeAmount > 0) {
-      feePriceId = await getOrCreateCreditCardFeePrice(creditCardFeeAmount, {
-        interval: price.recurring.interval,
-        intervalCount: price.recurring.interval_count ?? 1,
-      });
+      feePriceId = await getOrCreateCreditCardFeePrice(
+        creditCardFeeAmount,
+        quote.surcharge.percent,
+        quote.currency,
+        {
+          interval: price.recurring!.interval,
+          intervalCount: price.recurring!.interval_count ?? 1,
+        },
+        requestOptions,
+      );
     }
 
+    const billingStartsAt = getBillingStartDate(
+      payload.desiredStartDate,
+      clinicMetadata.clinicTimezone,
+      getIdempotentRequestTime(res),
+    );
+    const term = computeSubscriptionTerm(billingStartsAt, payload.durationYears);
+    const { metadata: termMetadata, ...termSettings } = buildTermParams(term, payload.autoRenew);
+
     const subscriptionParams: Stripe.SubscriptionCreateParams = {
-      customer: customer.id,
-      default_payment_method: paymentMethod.id,
+      customer: customer.customerId,
+      currency: quote.currency,
       items: [
         {
-          price: plan.priceId!,
+          ...getSubscriptionItemPriceParams(quote),
+          tax_rates: taxSettings.taxRates,
         },
       ],
-      trial_period_days: TRIAL_PERIOD_DAYS,
-      payment_behavior: "default_incomplete",
+      automatic_tax: taxSettings.automaticTax,
+      ...termSettings,
       metadata: {
         plan_type: PlanType.Subscription,
         duration_years: payload.durationYears.toString(),
         billing_cadence: payload.billingCadence,
         clinic_name: payload.clinicName,
         clinic_timezone: clinicMetadata.clinicTimezone,
-        coupon_code: payload.couponCode ?? "",
-        coupon_percent_off: effectiveCouponPercent?.toString() ?? "",
-        coupon_discount_amount_cents: effectiveCouponAmount.toString(),
+        coupon_code: coupon?.code ?? "",
+        coupon_percent_off: quote.couponPercent?.toString() ?? "",
+        coupon_discount_amount_cents: quote.breakdown.discountAmount.toString(),
         credit_card_fee_cents: creditCardFeeAmount.toString(),
-        fee_percent_applied: creditFunding ? CREDIT_CARD_FEE_PERCENT.toString() : "0",
-        shipping_amount_cents: SHIPPING_COST_CENTS.toString(),
+        fee_percent_applied: quote.surcharge.percent.toString(),
+        surcharge_rule: quote.surcharge.ruleId,
+        surcharge_reason: quote.surcharge.reason,
+        ...getShippingMetadata(quote.shipping),
+        shipping_amount_cents: quote.breakdown.shippingAmount.toString(),
+        ...getTaxMetadata(quote.tax),
         buying_group_member: String(payload.buyingGroupMember),
         buying_group_name: payload.buyingGroupName ?? "",
+        buying_group_discount_percent: quote.buyingGroupPricing?.discountPercent?.toString() ?? "",
         desired_start_date: payload.desiredStartDate ?? "",
         terms_accepted_at: clinicMetadata.termsAcceptedAt,
+        collection_method: payload.collectionMethod,
+        days_until_due: daysUntilDue?.toString() ?? "",
+        payment_method_type: paymentMethod?.type ?? "",
+        ...termMetadata,
       },
-      discounts: couponDetails?.couponId
-        ? [
-            {
-              coupon: couponDetails.couponId,
-            },
-          ]
-        : undefined,
-      payment_settings: {
-        save_default_payment_method: "on_subscription",
-        payment_method_types: ["card"],
-      },
+      discounts: coupon ? [getStripeDiscount(coupon)] : undefined,
       expand: ["latest_invoice.payment_intent"],
     };
 
+    if (paymentMethod) {
+      subscriptionParams.collection_method = "charge_automatically";
+      subscriptionParams.default_payment_method = paymentMethod.id;
+      subscriptionParams.payment_behavior = "default_incomplete";
+      subscriptionParams.payment_settings = {
+        save_default_payment_method: "on_subscription",
+        payment_method_types: getPaymentMethodTypesForCurrency(quote.currency),
+      };
+    } else {
+      // Each invoice is emailed to the clinic, which pays it by bank transfer within the net terms
+      subscriptionParams.collection_method = "send_invoice";
+      subscriptionParams.days_until_due = daysUntilDue;
+    }
+
     if (feePriceId) {
       subscriptionParams.items?.push({
         price: feePriceId,
       });
     }
 
-    const subscription = await stripe.subscriptions.create(subscriptionParams);
+    // During a trial the first invoice is the $0 trial invoice, so shipping waits for the first paid one
+    const shippingPriceData =
+      quote.breakdown.shippingAmount > 0
+        ? getSubscriptionShippingPriceData(quote.breakdown.shippingAmount, quote.currency)
+        : null;
+    const shipsAfterTrial = shippingPriceData !== null && termSettings.trial_end !== "now";
+    if (shippingPriceData && !shipsAfterTrial) {
+      subscriptionParams.add_invoice_items = [{ price_data: shippingPriceData, tax_rates: taxSettings.taxRates }];
+    }
+
+    const subscription = await stripe.subscriptions.create(subscriptionParams, requestOptions("subscription.create"));
+    await recordSubscription(subscription, {
+      priceId: getSubscriptionItems(subscription).planItem?.price.id ?? price.id,
+      feePriceId,
+      durationYears: payload.durationYears,
+      billingCadence: payload.billingCadence,
+    });
+    logger.info("subscription.created", {
+      subscriptionId: subscription.id,
+      customerId: customer.customerId,
+      status: subscription.status,
+      collectionMethod: payload.collectionMethod,
+      durationYears: payload.durationYears,
+      billingCadence: payload.billingCadence,
+    });
 
-    if (SHIPPING_COST_CENTS > 0) {
-      await stripe.invoiceItems.create({
-        customer: customer.id,
-        subscription: subscription.id,
-        amount: SHIPPING_COST_CENTS,
-        currency: BASE_CURRENCY,
-        description: SHIPPING_LINE_ITEM_DESCRIPTION,
+    if (shippingPriceData && shipsAfterTrial) {
+      // A pending item on the subscription is billed on its next invoice, the first one after the trial
+      await stripe.invoiceItems.create(
+        {
+          customer: customer.customerId,
+          subscription: subscription.id,
+          price_data: shippingPriceData,
+          tax_rates: taxSettings.taxRates,
+        },
+        requestOptions("invoice_item.shipping"),
+      );
+      logger.info("subscription.shipping_item_created", {
+        subscriptionId: subscription.id,
+        amount: quote.breakdown.shippingAmount,
       });
     }
+
     const latestInvoice = subscription.latest_invoice;
+    const invoiceDetails = latestInvoice && typeof latestInvoice !== "string" ? latestInvoice : null;
 
     let paymentIntent: Stripe.PaymentIntent | null = null;
-    if (latestInvoice && typeof latestInvoice !== "string") {
-      if (latestInvoice.payment_intent && typeof latestInvoice.payment_intent !== "string") {
-        paymentIntent = latestInvoice.payment_intent;
-      } else if (typeof latestInvoice.payment_intent === "string") {
-        paymentIntent = await stripe.paymentIntents.retrieve(latestInvoice.payment_intent);
+    if (paymentMethod && invoiceDetails) {
+      if (invoiceDetails.payment_intent && typeof invoiceDetails.payment_intent !== "string") {
+        paymentIntent = invoiceDetails.payment_intent;
+      } else if (typeof invoiceDetails.payment_intent === "string") {
+        paymentIntent = await stripe.paymentIntents.retrieve(invoiceDetails.payment_intent);
       }
     }
 
     // Confirm the payment intent immediately, as the payment method should be already set and confirmed in the `setup-intents` request
     if (paymentIntent && paymentIntent.status === "requires_confirmation") {
-      paymentIntent = await stripe.paymentIntents.confirm(paymentIntent.id);
+      paymentIntent = await stripe.paymentIntents.confirm(
+        paymentIntent.id,
+        undefined,
+        requestOptions("payment_intent.confirm"),
+      );
+      logger.info("subscription.payment_confirmed", {
+        subscriptionId: subscription.id,
+        paymentIntentId: paymentIntent.id,
+        status: paymentIntent.status,
+      });
     }
 
+    recordCheckoutSuccess(checkoutLabels, { amount: creditCardFeeAmount, currency: quote.currency });
     res.json({
       subscriptionId: subscription.id,
-      amountDue: paymentIntent?.amount ?? null,
-      currency: paymentIntent?.currency ?? BASE_CURRENCY,
+      invoiceId: latestInvoice ? (typeof latestInvoice === "string" ? latestInvoice : latestInvoice.id) : null,
+      amountDue: paymentIntent?.amount ?? invoiceDetails?.amount_due ?? null,
+      currency: paymentIntent?.currency ?? quote.currency,
       creditCardFeeAmount,
-      shippingAmount: SHIPPING_COST_CENTS,
+      shippingAmount: quote.breakdown.shippingAmount,
+      shippingServiceLevel: quote.shipping.serviceLevel,
+      taxAmount: quote.breakdown.taxAmount,
       clinicTimezone: clinicMetadata.clinicTimezone,
-      status: paymentIntent?.status ?? null,
+      billingStartsAt: term.billingStartsAt.toISOString(),
+      termEndsAt: term.termEndsAt.toISOString(),
+      autoRenew: payload.autoRenew,
+      collectionMethod: payload.collectionMethod,
+      paymentMethodType: paymentMethod?.type ?? null,
+      // Bank debits stay `processing` for a few days until the payment settles; invoices sent for
+      // payment stay `open` until the clinic pays them
+      status: paymentMethod ? (paymentIntent?.status ?? null) : (invoiceDetails?.status ?? null),
+      // When the card requires authentication, the frontend completes it and then calls
+      // `POST /api/payments/:invoiceId/complete` with the first invoice
+      authentication: getPaymentAuthentication(paymentIntent),
+      ...(invoiceDetails
+        ? getInvoiceDocuments(invoiceDetails)
+        : { hostedInvoiceUrl: null, invoicePdf: null, dueDate: null }),
+    });
+  } catch (error) {
+    recordCheckoutFailure(checkoutLabels, error);
+    next(error);
+  }
+});
+
+const planChangeSchema = z.object({
+  durationYears: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  billingCadence: z.enum(["monthly", "annual"]),
+  preview: z.boolean().default(false),
+  prorationDate: z.number().int().positive().optional(),
+});
+
+const cancelSchema = z.object({
+  atPeriodEnd: z.boolean().default(true),
+});
+
+const renewalSchema = z.object({
+  autoRenew: z.boolean(),
+});
+
+router.get("/:id", async (req, res, next) => {
+  try {
+    const customer = await resolveCustomer(getSession(res).email);
+    const subscription = await retrieveCustomerSubscription(req.params.id, customer.customerId);
+    if (!subscription) {
+      throw new NotFoundError("subscription_not_found", "Subscription not found.");
+    }
+
+    res.json(serializeSubscription(subscription));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch("/:id", async (req, res, next) => {
+  try {
+    const payload = planChangeSchema.parse(req.body);
+
+    const customer = await resolveCustomer(getSession(res).email);
+    const subscription = await retrieveCustomerSubscription(req.params.id, customer.customerId);
+    if (!subscription) {
+      throw new NotFoundError("subscription_not_found", "Subscription not found.");
+    }
+
+    const selection = { durationYears: payload.durationYears, billingCadence: payload.billingCadence };
+
+    if (payload.preview) {
+      const preview = await previewSubscriptionPlanChange(subscription, selection, payload.prorationDate);
+      return res.json({ subscriptionId: subscription.id, preview });
+    }
+
+    const updated = await changeSubscriptionPlan(
+      subscription,
+      selection,
+      payload.prorationDate,
+      stripeRequestOptionsFor(res, "subscriptions"),
+    );
+
+    res.json(serializeSubscription(updated));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:id/cancel", async (req, res, next) => {
+  try {
+    const payload = cancelSchema.parse(req.body);
+
+    const customer = await resolveCustomer(getSession(res).email);
+    const subscription = await retrieveCustomerSubscription(req.params.id, customer.customerId);
+    if (!subscription) {
+      throw new NotFoundError("subscription_not_found", "Subscription not found.");
+    }
+
+    const { subscription: canceled } = await cancelSubscription(
+      subscription,
+      payload.atPeriodEnd,
+      stripeRequestOptionsFor(res, "subscriptions"),
+    );
+
+    res.json(serializeSubscription(canceled));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:id/renewal", async (req, res, next) => {
+  try {
+    const payload = renewalSchema.parse(req.body);
+
+    const customer = await resolveCustomer(getSession(res).email);
+    const subscription = await retrieveCustomerSubscription(req.params.id, customer.customerId);
+    if (!subscription) {
+      throw new NotFoundError("subscription_not_found", "Subscription not found.");
+    }
+
+    const record = await setAutoRenew(subscription, payload.autoRenew);
+
+    res.json({
+      subscriptionId: subscription.id,
+      autoRenew: payload.autoRenew,
+      termEndsAt: record?.termEndsAt ?? subscription.metadata.term_ends_at ?? null,
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { after, before, describe, it } from "node:test";
+import app from "../app";
+import { store } from "../store";
+import { buildEvent, signWebhookEvent } from "../test/stripeWebhooks";
+import { registerWebhookHandler } from "../webhooks";
+
+const invoice = (id: string) => ({
+  id,
+  object: "invoice",
+  customer: "cus_test",
+  subscription: null,
+  status: "paid",
+  total: 5000,
+  currency: "usd",
+  payment_intent: null,
+  default_payment_method: null,
+  metadata: { plan_type: "one_time" },
+});
+
+describe("POST /api/webhooks/stripe", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const deliver = async (event: ReturnType<typeof buildEvent>, headers?: Record<string, string>) => {
+    const signed = signWebhookEvent(event);
+    const response = await fetch(`${baseUrl}/api/webhooks/stripe`, {
+      method: "POST",
+      headers: headers ?? signed.headers,
+      body: signed.body,
+    });
+    return { status: response.status, body: await response.text() };
+  };
+
+  before(async () => {
+    registerWebhookHandler("charge.dispute.created", async () => {
+      throw new Error("Dispute handler failed.");
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("handles an event once and acknowledges redeliveries as duplicates", async () => {
+    const event = buildEvent("invoice.payment_succeeded", invoice("in_test_dedup"));
+
+    const first = await deliver(event);
+    assert.equal(first.status, 200);
+    assert.deepEqual(JSON.parse(first.body), { received: true, duplicate: false });
+    assert.equal((await store.invoices.get("in_test_dedup"))?.status, "paid");
+
+    const second = await deliver(event);
+    assert.equal(second.status, 200);
+    assert.deepEqual(JSON.parse(second.body), { received: true, duplicate: true });
+    assert.equal((await store.webhookEvents.get(event.id))?.attempts, 1);
+  });
+
+  it("acknowledges event types without a handler without recording them", async () => {
+    const event = buildEvent("charge.refunded", { id: "ch_test", object: "charge" });
+
+    const response = await deliver(event);
+    assert.equal(response.status, 200);
+    assert.deepEqual(JSON.parse(response.body), { received: true, duplicate: false });
+    assert.equal(await store.webhookEvents.get(event.id), null);
+  });
+
+  it("answers 500 and records the failure when a handler throws, so Stripe redelivers", async () => {
+    const event = buildEvent("charge.dispute.created", { id: "dp_test", object: "dispute" });
+
+    const response = await deliver(event);
+    assert.equal(response.status, 500);
+    assert.deepEqual(JSON.parse(response.body), { error: "Webhook handler failed." });
+    const record = await store.webhookEvents.get(event.id);
+    assert.equal(record?.status, "failed");
+    assert.equal(record?.lastError, "Dispute handler failed.");
+  });
+
+  it("rejects deliveries with an invalid signature", async () => {
+    const event = buildEvent("invoice.payment_succeeded", invoice("in_test_forged"));
+
+    const response = await deliver(event, { "content-type": "application/json", "stripe-signature": "t=1,v1=forged" });
+    assert.equal(response.status, 400);
+    assert.equal(await store.invoices.get("in_test_forged"), null);
+  });
+});
@@ -1,13 +1,17 @@
 import express, { Router } from "express";
 import Stripe from "stripe";
 import { stripe } from "../lib/stripe";
+import { logger } from "../lib/logger";
+import { webhookEvents } from "../lib/metrics";
 import { env } from "../config";
+import { processWebhookEvent } from "../webhooks";
 
 const router = Router();
 
-router.post("/stripe", express.raw({ type: "application/json" }), (req, res: express.Response) => {
+router.post("/stripe", express.raw({ type: "application/json" }), async (req, res: express.Response) => {
   const signature = req.headers["stripe-signature"];
   if (!signature || !env.stripeWebhookSecret) {
+    logger.warn("webhook.rejected", { reason: "missing_signature" });
     return res.status(400).send("Missing Stripe signature or webhook secret.");
   }
 
@@ -16,23 +20,22 @@ router.post("/stripe", express.raw({ type: "application/json" }), (req, res: exp
     event = stripe.webhooks.constructEvent(req.body, signature, env.stripeWebhookSecret);
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
+    logger.warn("webhook.rejected", { reason: "invalid_signature", error: message });
     return res.status(400).send(`Webhook signature verification failed: ${message}`);
   }
 
-  switch (event.type) {
-    case "invoice.payment_succeeded":
-    case "invoice.payment_failed":
-    case "customer.subscription.created":
-    case "customer.subscription.updated":
-    case "customer.subscription.deleted":
-      // TODO: Handle payment success/failure and subscription created/updated/deleted events accordingly to your needs
-      console.log(`Stripe event received: ${event.type}`, event.id);
-      break;
-    default:
-      console.log(`Unhandled Stripe event type: ${event.type}`);
+  logger.info("webhook.received", { eventId: event.id, type: event.type });
+  try {
+    const outcome = await processWebhookEvent(event);
+    logger.info("webhook.handled", { eventId: event.id, type: event.type, outcome });
+    webhookEvents.inc({ type: event.type, outcome });
+    res.json({ received: true, duplicate: outcome === "duplicate" });
+  } catch (err) {
+    // Respond with a server error so Stripe redelivers the event later
+    logger.error("webhook.failed", { eventId: event.id, type: event.type, error: err });
+    webhookEvents.inc({ type: event.type, outcome: "failed" });
+    res.status(500).json({ error: "Webhook handler failed." });
   }
-
-  res.json({ received: true });
 });
 
 export default router;
@@ -1,10 +1,17 @@
 import app from "./app";
 import { env } from "./config";
+import { logger } from "./lib/logger";
+import { startIdempotencyKeyPruner } from "./middleware/idempotency";
+import { startRecordPruner } from "./services/retention";
+import { startRenewalScheduler } from "./services/subscriptionTerms";
+import { startScheduledChargeScheduler } from "./services/invoices";
 
 const port = env.port;
 
 app.listen(port, () => {
-  // eslint-disable-next-line no-console
-  console.log(`Backend listening on port ${port}`);
+  logger.info("server.started", { port });
+  startRenewalScheduler();
+  startScheduledChargeScheduler();
+  startIdempotencyKeyPruner();
+  startRecordPruner();
 });
-
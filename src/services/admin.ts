@@ -0,0 +1,118 @@
+import { store } from "../store";
+import type { CustomerRecord, InvoiceRecord, SubscriptionRecord } from "../store";
+
+export interface ClinicSearch {
+  /** Matched against the clinic name and email, ignoring case. */
+  query?: string;
+  buyingGroupName?: string;
+}
+
+export interface RecordFilter {
+  customerId?: string;
+  status?: string;
+  limit: number;
+}
+
+const metadataNumber = (metadata: Record<string, string>, key: string): number | null => {
+  const value = metadata[key];
+  return value === undefined || value === "" ? null : Number(value);
+};
+
+/**
+ * The pricing our payment and subscription routes write to invoice and subscription metadata.
+ */
+export const getPricingMetadata = (metadata: Record<string, string>) => ({
+  baseAmount: metadataNumber(metadata, "base_amount_cents"),
+  discountAmount:
+    metadataNumber(metadata, "discount_amount_cents") ?? metadataNumber(metadata, "coupon_discount_amount_cents"),
+  couponCode: metadata.coupon_code || null,
+  creditCardFeeAmount: metadataNumber(metadata, "credit_card_fee_cents"),
+  feePercentApplied: metadataNumber(metadata, "fee_percent_applied"),
+  surchargeRule: metadata.surcharge_rule || null,
+  surchargeReason: metadata.surcharge_reason || null,
+  shippingAmount: metadataNumber(metadata, "shipping_amount_cents"),
+  taxAmount: metadataNumber(metadata, "tax_amount_cents"),
+  buyingGroupName: metadata.buying_group_name || null,
+  buyingGroupDiscountPercent: metadataNumber(metadata, "buying_group_discount_percent"),
+  collectionMethod: metadata.collection_method || null,
+  paymentMethodType: metadata.payment_method_type || null,
+});
+
+export const serializeClinic = (record: CustomerRecord) => ({
+  customerId: record.id,
+  email: record.email,
+  clinicName: record.clinic.name,
+  clinicTimezone: record.clinic.timezone,
+  address: record.clinic.address ?? null,
+  billingAddress: record.clinic.billingAddress ?? record.clinic.address ?? null,
+  shippingAddress: record.clinic.shippingAddress ?? record.clinic.address ?? null,
+  buyingGroupMember: record.clinic.buyingGroupMember,
+  buyingGroupName: record.clinic.buyingGroupName ?? null,
+  defaultPaymentMethodId: record.defaultPaymentMethodId,
+  cardFunding: record.cardFunding ?? null,
+  createdAt: record.createdAt,
+});
+
+export const serializeInvoiceRecord = (record: InvoiceRecord) => ({
+  invoiceId: record.id,
+  customerId: record.customerId,
+  subscriptionId: record.subscriptionId ?? null,
+  planType: record.planType,
+  status: record.status,
+  totalAmount: record.totalAmount,
+  currency: record.currency,
+  scheduledChargeAt: record.scheduledChargeAt ?? null,
+  pricing: getPricingMetadata(record.metadata),
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+});
+
+export const serializeSubscriptionRecord = (record: SubscriptionRecord) => ({
+  subscriptionId: record.id,
+  customerId: record.customerId,
+  status: record.status,
+  priceId: record.priceId,
+  durationYears: record.durationYears,
+  billingCadence: record.billingCadence,
+  currency: record.currency,
+  termEndsAt: record.termEndsAt ?? null,
+  autoRenew: record.autoRenew ?? false,
+  pricing: getPricingMetadata(record.metadata),
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+});
+
+const newestFirst = <T extends { createdAt: string }>(records: T[]): T[] =>
+  records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+/**
+ * Finds clinics in the local store by name, email and buying group.
+ */
+export const searchClinics = async (search: ClinicSearch, limit: number): Promise<CustomerRecord[]> => {
+  const query = search.query?.trim().toLowerCase();
+  const buyingGroupName = search.buyingGroupName?.trim().toLowerCase();
+  const matches = await store.customers.find(
+    (record) =>
+      (!query || record.email.includes(query) || record.clinic.name.toLowerCase().includes(query)) &&
+      (!buyingGroupName || record.clinic.buyingGroupName?.toLowerCase() === buyingGroupName),
+  );
+  return newestFirst(matches).slice(0, limit);
+};
+
+export const listInvoiceRecords = async (filter: RecordFilter): Promise<InvoiceRecord[]> => {
+  const matches = await store.invoices.find(
+    (record) =>
+      (!filter.customerId || record.customerId === filter.customerId) &&
+      (!filter.status || record.status === filter.status),
+  );
+  return newestFirst(matches).slice(0, filter.limit);
+};
+
+export const listSubscriptionRecords = async (filter: RecordFilter): Promise<SubscriptionRecord[]> => {
+  const matches = await store.subscriptions.find(
+    (record) =>
+      (!filter.customerId || record.customerId === filter.customerId) &&
+      (!filter.status || record.status === filter.status),
+  );
+  return newestFirst(matches).slice(0, filter.limit);
+};
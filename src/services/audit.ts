@@ -0,0 +1,47 @@
+import { randomUUID } from "crypto";
+import { store } from "../store";
+import type { AuditLogRecord } from "../store";
+
+export interface AuditEvent {
+  actor: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Runs an admin action and records it in the audit log, whether it succeeds or fails.
+ */
+export const runAudited = async <T>(event: AuditEvent, action: () => Promise<T>): Promise<T> => {
+  const entry = { ...event, id: randomUUID(), details: event.details ?? {} };
+  try {
+    const result = await action();
+    await store.auditLog.upsert({ ...entry, outcome: "succeeded" });
+    return result;
+  } catch (error) {
+    await store.auditLog.upsert({
+      ...entry,
+      outcome: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+};
+
+export interface AuditLogFilter {
+  targetId?: string;
+  actor?: string;
+  limit: number;
+}
+
+/**
+ * Audit log entries, newest first, optionally limited to one target or actor.
+ */
+export const listAuditEvents = async (filter: AuditLogFilter): Promise<AuditLogRecord[]> => {
+  const entries = await store.auditLog.find(
+    (entry) =>
+      (!filter.targetId || entry.targetId === filter.targetId) && (!filter.actor || entry.actor === filter.actor),
+  );
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, filter.limit);
+};
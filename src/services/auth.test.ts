@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import { env } from "../config";
+import { RateLimitError } from "../lib/errors";
+import { requestLoginCode, verifyLoginCode } from "./auth";
+
+describe("login codes", () => {
+  let webhookStatus = 200;
+  const deliveries: { email: string; code: string; loginUrl: string }[] = [];
+
+  const lastCodeFor = (email: string): string => {
+    const delivery = deliveries.filter((entry) => entry.email === email).pop();
+    assert.ok(delivery, `No code was delivered to ${email}`);
+    return delivery.code;
+  };
+
+  const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+  before(() => {
+    mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+      assert.equal(url, env.authEmailWebhookUrl);
+      assert.ok(init.signal, "Delivery must time out");
+      if (webhookStatus === 200) {
+        deliveries.push(JSON.parse(init.body as string));
+      }
+      return new Response(null, { status: webhookStatus });
+    });
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it("delivers a code that signs in once", async () => {
+    await requestLoginCode(" Clinic@Example.com ");
+    const code = lastCodeFor("clinic@example.com");
+
+    assert.match(code, /^\d{6}$/);
+    assert.match(deliveries.at(-1)!.loginUrl, /\/login\?email=clinic%40example\.com&code=\d{6}$/);
+    assert.equal(await verifyLoginCode("clinic@example.com", code), true);
+    assert.equal(await verifyLoginCode("clinic@example.com", code), false);
+  });
+
+  it("doesn't send another code within a minute of the last one", async () => {
+    await requestLoginCode("resend@example.com");
+    await requestLoginCode("resend@example.com");
+
+    assert.equal(deliveries.filter((entry) => entry.email === "resend@example.com").length, 1);
+  });
+
+  it("discards a code after too many wrong guesses or once it expires", async () => {
+    await requestLoginCode("guesses@example.com");
+    const code = lastCodeFor("guesses@example.com");
+    const wrongCode = code === "000000" ? "111111" : "000000";
+    for (let attempt = 0; attempt < env.authLoginCodeMaxAttempts; attempt++) {
+      assert.equal(await verifyLoginCode("guesses@example.com", wrongCode), false);
+    }
+    assert.equal(await verifyLoginCode("guesses@example.com", code), false);
+
+    await requestLoginCode("expired@example.com");
+    const expiredCode = lastCodeFor("expired@example.com");
+    assert.equal(
+      await verifyLoginCode("expired@example.com", expiredCode, minutesFromNow(env.authLoginCodeTtlMinutes + 1)),
+      false,
+    );
+  });
+
+  it("limits the codes sent to an address per hour", async () => {
+    for (let send = 0; send < env.authLoginCodeMaxSendsPerHour; send++) {
+      await requestLoginCode("sends@example.com", minutesFromNow(send * 2));
+    }
+
+    await assert.rejects(
+      requestLoginCode("sends@example.com", minutesFromNow(env.authLoginCodeMaxSendsPerHour * 2)),
+      (error) => error instanceof RateLimitError && error.code === "too_many_login_codes",
+    );
+  });
+
+  it("limits wrong codes per address across resent codes", async () => {
+    let now = new Date();
+    for (let attempt = 0; attempt < env.authLoginMaxFailedVerificationsPerHour; attempt++) {
+      if (attempt % env.authLoginCodeMaxAttempts === 0) {
+        now = new Date(now.getTime() + 2 * 60 * 1000);
+        await requestLoginCode("failures@example.com", now);
+      }
+      assert.equal(await verifyLoginCode("failures@example.com", "not-the-code", now), false);
+    }
+
+    await assert.rejects(
+      verifyLoginCode("failures@example.com", lastCodeFor("failures@example.com"), now),
+      (error) => error instanceof RateLimitError && error.code === "too_many_login_attempts",
+    );
+  });
+
+  it("fails when the email automation doesn't accept the code", async () => {
+    webhookStatus = 500;
+    try {
+      await assert.rejects(requestLoginCode("undelivered@example.com"), /Login code delivery failed with status 500/);
+    } finally {
+      webhookStatus = 200;
+    }
+  });
+});
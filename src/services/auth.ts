@@ -0,0 +1,171 @@
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import { env } from "../config";
+import { ConfigurationError, RateLimitError } from "../lib/errors";
+import { logger } from "../lib/logger";
+import { createRateLimiter } from "../lib/rateLimiter";
+import { store } from "../store";
+import { fromUnixTimestamp, toUnixTimestamp } from "../utils/dates";
+
+export interface Session {
+  /** Verified email address, in lower case. Every request of the session acts on this email's customer. */
+  email: string;
+  expiresAt: Date;
+}
+
+const LOGIN_CODE_LENGTH = 6;
+// A new code isn't sent while the last one was sent less than this long ago
+const LOGIN_CODE_RESEND_INTERVAL_MS = 60 * 1000;
+const LOGIN_CODE_DELIVERY_TIMEOUT_MS = 10 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Every resend issues a new code with fresh attempts, so sends and wrong codes are also limited per email
+const loginCodeSends = createRateLimiter(env.authLoginCodeMaxSendsPerHour, HOUR_MS);
+const failedVerifications = createRateLimiter(env.authLoginMaxFailedVerificationsPerHour, HOUR_MS);
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const sign = (value: string): string => createHmac("sha256", env.authSessionSecret).update(value).digest("base64url");
+
+const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+};
+
+const hashLoginCode = (email: string, code: string): string => sign(`login-code:${email}:${code}`);
+
+const getLoginUrl = (email: string, code: string): string => {
+  const url = new URL("/login", env.frontendUrl);
+  url.searchParams.set("email", email);
+  url.searchParams.set("code", code);
+  return url.toString();
+};
+
+/**
+ * Hands the code to the email automation at `AUTH_EMAIL_WEBHOOK_URL`. The login URL lets the frontend
+ * offer the code as a magic link. Without a webhook, codes are logged so they can be used in development.
+ */
+const deliverLoginCode = async (email: string, code: string, expiresAt: Date): Promise<void> => {
+  if (!env.authEmailWebhookUrl) {
+    if (process.env.NODE_ENV === "production") {
+      throw new ConfigurationError("AUTH_EMAIL_WEBHOOK_URL is required to send login codes.");
+    }
+    logger.info("auth.login_code_generated", { email, code });
+    return;
+  }
+
+  const response = await fetch(env.authEmailWebhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, code, loginUrl: getLoginUrl(email, code), expiresAt: expiresAt.toISOString() }),
+    signal: AbortSignal.timeout(LOGIN_CODE_DELIVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Login code delivery failed with status ${response.status}.`);
+  }
+};
+
+/**
+ * Sends a one-time sign-in code to the email address, replacing any earlier code. Codes are sent to any
+ * address, known customer or not, so the response doesn't reveal which clinics have an account. Throws a
+ * `RateLimitError` once `AUTH_LOGIN_CODE_MAX_SENDS_PER_HOUR` codes were sent to the address.
+ */
+export const requestLoginCode = async (email: string, now = new Date()): Promise<void> => {
+  const normalized = normalizeEmail(email);
+  const existing = await store.loginCodes.get(normalized);
+  if (existing && now.getTime() - new Date(existing.updatedAt).getTime() < LOGIN_CODE_RESEND_INTERVAL_MS) {
+    return;
+  }
+  if (loginCodeSends.isLimited(normalized, now)) {
+    throw new RateLimitError(
+      "too_many_login_codes",
+      "Too many sign-in codes were requested for this email. Please try again later.",
+    );
+  }
+  loginCodeSends.hit(normalized, now);
+
+  const code = randomInt(0, 10 ** LOGIN_CODE_LENGTH)
+    .toString()
+    .padStart(LOGIN_CODE_LENGTH, "0");
+  const expiresAt = new Date(now.getTime() + env.authLoginCodeTtlMinutes * 60 * 1000);
+  await store.loginCodes.upsert({
+    id: normalized,
+    codeHash: hashLoginCode(normalized, code),
+    expiresAt: expiresAt.toISOString(),
+    attempts: 0,
+  });
+  await deliverLoginCode(normalized, code, expiresAt);
+};
+
+const checkLoginCode = async (email: string, code: string, now: Date): Promise<boolean> => {
+  const record = await store.loginCodes.get(email);
+  if (!record) {
+    return false;
+  }
+  if (new Date(record.expiresAt) <= now || record.attempts >= env.authLoginCodeMaxAttempts) {
+    await store.loginCodes.delete(email);
+    return false;
+  }
+
+  if (!safeEqual(record.codeHash, hashLoginCode(email, code.trim()))) {
+    await store.loginCodes.upsert({ ...record, attempts: record.attempts + 1 });
+    return false;
+  }
+  await store.loginCodes.delete(email);
+  return true;
+};
+
+/**
+ * Checks a sign-in code. A code can be used once, and is discarded after `AUTH_LOGIN_CODE_MAX_ATTEMPTS`
+ * wrong guesses or once it expires. Throws a `RateLimitError` once the address had
+ * `AUTH_LOGIN_MAX_FAILED_VERIFICATIONS_PER_HOUR` failed attempts, across all its codes.
+ */
+export const verifyLoginCode = async (email: string, code: string, now = new Date()): Promise<boolean> => {
+  const normalized = normalizeEmail(email);
+  if (failedVerifications.isLimited(normalized, now)) {
+    throw new RateLimitError(
+      "too_many_login_attempts",
+      "Too many incorrect sign-in codes were entered for this email. Please try again later.",
+    );
+  }
+
+  const verified = await checkLoginCode(normalized, code, now);
+  if (!verified) {
+    failedVerifications.hit(normalized, now);
+  }
+  return verified;
+};
+
+/**
+ * Issues a session token for a verified email: the session, base64url encoded, and its HMAC signature.
+ */
+export const createSessionToken = (email: string, now = new Date()): { token: string; session: Session } => {
+  const session: Session = {
+    email: normalizeEmail(email),
+    expiresAt: new Date(now.getTime() + env.authSessionTtlHours * 60 * 60 * 1000),
+  };
+  const payload = Buffer.from(
+    JSON.stringify({ email: session.email, exp: toUnixTimestamp(session.expiresAt) }),
+  ).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, session };
+};
+
+/**
+ * Returns the session of a token, or null when the token is malformed, tampered with or expired.
+ */
+export const verifySessionToken = (token: string, now = new Date()): Session | null => {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0 || !safeEqual(signature, sign(payload))) {
+    return null;
+  }
+
+  try {
+    const { email, exp } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (typeof email !== "string" || typeof exp !== "number" || fromUnixTimestamp(exp) <= now) {
+      return null;
+    }
+    return { email, expiresAt: fromUnixTimestamp(exp) };
+  } catch {
+    return null;
+  }
+};
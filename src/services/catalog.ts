@@ -0,0 +1,67 @@
+import { MAX_CART_LINES, ONE_TIME_PRODUCT_ID, findCatalogProduct } from "../config";
+import type { CatalogProduct } from "../config";
+import { ValidationError } from "../lib/errors";
+
+export type CatalogRejectionReason = "unknown_item" | "quantity_exceeded" | "too_many_items";
+
+/**
+ * An ordered item that isn't in the catalog or can't be ordered in the requested quantity.
+ */
+export class CatalogValidationError extends ValidationError {
+  constructor(code: CatalogRejectionReason, message: string) {
+    super(code, message);
+    this.name = "CatalogValidationError";
+  }
+}
+
+export interface CartItem {
+  productId?: string;
+  priceId?: string;
+  quantity: number;
+}
+
+export interface ResolvedCartItem {
+  product: CatalogProduct;
+  /** Price billed for the item; the product's default price when not set. */
+  priceId?: string;
+  quantity: number;
+}
+
+export const DEFAULT_CART: CartItem[] = [{ productId: ONE_TIME_PRODUCT_ID, quantity: 1 }];
+
+/**
+ * Checks ordered items against the catalog. Items ordered more than once are merged into a single line,
+ * keeping the order they were first listed in.
+ */
+export const resolveCartItems = (items: CartItem[] = DEFAULT_CART): ResolvedCartItem[] => {
+  const lines = new Map<string, ResolvedCartItem>();
+
+  for (const item of items) {
+    const product = findCatalogProduct(item);
+    if (!product) {
+      throw new CatalogValidationError(
+        "unknown_item",
+        `${item.priceId ?? item.productId ?? "Item"} is not available to order.`,
+      );
+    }
+    const priceId = item.priceId ?? product.priceId;
+    const key = `${product.productId}:${priceId ?? ""}`;
+    const line = lines.get(key) ?? { product, priceId, quantity: 0 };
+    line.quantity += item.quantity;
+    lines.set(key, line);
+  }
+
+  if (lines.size > MAX_CART_LINES) {
+    throw new CatalogValidationError("too_many_items", `An order can contain at most ${MAX_CART_LINES} products.`);
+  }
+  for (const line of lines.values()) {
+    if (line.product.maxQuantity && line.quantity > line.product.maxQuantity) {
+      throw new CatalogValidationError(
+        "quantity_exceeded",
+        `At most ${line.product.maxQuantity} of ${line.product.productId} can be ordered at once.`,
+      );
+    }
+  }
+
+  return [...lines.values()];
+};
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import { PlanType } from "../config";
+import { stripe } from "../lib/stripe";
+import { store } from "../store";
+import type { CouponRecord } from "../store";
+import { CouponValidationError, validateCoupon } from "./coupons";
+import type { CouponRedemptionContext } from "./coupons";
+
+const saveCouponRecord = (record: Pick<CouponRecord, "id" | "code"> & Partial<CouponRecord>) =>
+  store.coupons.upsert({ stripeCouponId: "co_test", active: true, ...record });
+
+const oneTimeOrder = (customerId: string): CouponRedemptionContext => ({
+  customerId,
+  planType: PlanType.OneTime,
+  buyingGroupMember: false,
+});
+
+const assertRejected = (promise: Promise<unknown>, code: string) =>
+  assert.rejects(promise, (error) => error instanceof CouponValidationError && error.code === code);
+
+describe("validateCoupon", () => {
+  before(() => {
+    mock.method(stripe.coupons, "retrieve", async (id: string) => ({
+      id,
+      percent_off: 10,
+      amount_off: null,
+      currency: null,
+    }));
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it("resolves the discount of a usable code, ignoring case and whitespace", async () => {
+    await saveCouponRecord({ id: "welcome10", code: "WELCOME10" });
+
+    const coupon = await validateCoupon("  welcome10 ", oneTimeOrder("cus_test_new"));
+    assert.equal(coupon?.code, "WELCOME10");
+    assert.equal(coupon?.percentOff, 10);
+    assert.equal(await validateCoupon("", oneTimeOrder("cus_test_new")), null);
+  });
+
+  it("rejects unknown, inactive and expired codes", async () => {
+    await saveCouponRecord({ id: "retired", code: "RETIRED", active: false });
+    await saveCouponRecord({ id: "summer", code: "SUMMER", expiresAt: "2026-09-01T00:00:00.000Z" });
+    const now = new Date("2026-10-01T00:00:00.000Z");
+
+    await assertRejected(validateCoupon("NOPE", oneTimeOrder("cus_test_new"), now), "unknown_code");
+    await assertRejected(validateCoupon("RETIRED", oneTimeOrder("cus_test_new"), now), "inactive");
+    await assertRejected(validateCoupon("SUMMER", oneTimeOrder("cus_test_new"), now), "expired");
+  });
+
+  it("rejects codes the plan, billing or buying group isn't eligible for", async () => {
+    await saveCouponRecord({
+      id: "annual3",
+      code: "ANNUAL3",
+      planTypes: [PlanType.Subscription],
+      durationYears: [3],
+      billingCadences: ["annual"],
+    });
+    await saveCouponRecord({ id: "group", code: "GROUP", buyingGroupOnly: true, buyingGroupNames: ["Vet Alliance"] });
+    const subscription = (durationYears: 1 | 3): CouponRedemptionContext => ({
+      customerId: "cus_test_new",
+      planType: PlanType.Subscription,
+      durationYears,
+      billingCadence: "annual",
+      buyingGroupMember: false,
+    });
+
+    await assertRejected(validateCoupon("ANNUAL3", oneTimeOrder("cus_test_new")), "plan_not_eligible");
+    await assertRejected(validateCoupon("ANNUAL3", subscription(1)), "plan_not_eligible");
+    assert.ok(await validateCoupon("ANNUAL3", subscription(3)));
+
+    await assertRejected(validateCoupon("GROUP", oneTimeOrder("cus_test_new")), "buying_group_only");
+    const member = { ...oneTimeOrder("cus_test_new"), buyingGroupMember: true, buyingGroupName: "vet alliance " };
+    assert.ok(await validateCoupon("GROUP", member));
+  });
+
+  it("rejects first-order codes for customers with a paid order", async () => {
+    await saveCouponRecord({ id: "first", code: "FIRST", firstOrderOnly: true });
+    await store.invoices.upsert({
+      id: "in_test_paid",
+      customerId: "cus_test_returning",
+      status: "paid",
+      planType: PlanType.OneTime,
+      totalAmount: 5000,
+      currency: "usd",
+      metadata: {},
+    });
+
+    await assertRejected(validateCoupon("FIRST", oneTimeOrder("cus_test_returning")), "first_order_only");
+    assert.ok(await validateCoupon("FIRST", oneTimeOrder("cus_test_new")));
+  });
+
+  it("enforces the overall and per-customer redemption limits", async () => {
+    await saveCouponRecord({ id: "limited", code: "LIMITED", maxRedemptions: 2, maxRedemptionsPerCustomer: 1 });
+    await store.couponRedemptions.upsert({
+      id: "limited:in_test_1",
+      couponId: "limited",
+      customerId: "cus_test_a",
+      planType: PlanType.OneTime,
+    });
+
+    await assertRejected(validateCoupon("LIMITED", oneTimeOrder("cus_test_a")), "customer_limit_reached");
+    assert.ok(await validateCoupon("LIMITED", oneTimeOrder("cus_test_b")));
+
+    await store.couponRedemptions.upsert({
+      id: "limited:in_test_2",
+      couponId: "limited",
+      customerId: "cus_test_b",
+      planType: PlanType.OneTime,
+    });
+    await assertRejected(validateCoupon("LIMITED", oneTimeOrder("cus_test_c")), "max_redemptions_reached");
+  });
+});
@@ -0,0 +1,329 @@
+import Stripe from "stripe";
+import { noRequestOptions, stripe } from "../lib/stripe";
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import { NotFoundError, ValidationError } from "../lib/errors";
+import { couponRedemptions, couponRejections } from "../lib/metrics";
+import { PlanType, getCouponIdForCode } from "../config";
+import type { SubscriptionBillingCadence, SubscriptionDurationYears } from "../config";
+import { store } from "../store";
+import type { CouponRecord, CouponRedemptionRecord, NewRecord } from "../store";
+import { toUnixTimestamp } from "../utils/dates";
+import { retrieveCoupon } from "./stripeHelpers";
+
+export type CouponRejectionReason =
+  | "unknown_code"
+  | "inactive"
+  | "expired"
+  | "max_redemptions_reached"
+  | "customer_limit_reached"
+  | "plan_not_eligible"
+  | "first_order_only"
+  | "buying_group_only";
+
+/**
+ * A coupon code that can't be used for the order. The message is meant to be shown at checkout.
+ */
+export class CouponValidationError extends ValidationError {
+  constructor(code: CouponRejectionReason, message: string) {
+    super(code, message);
+    this.name = "CouponValidationError";
+  }
+}
+
+export interface CouponDetails {
+  code: string;
+  couponId: string;
+  promotionCodeId?: string | null;
+  percentOff?: number | null;
+  amountOff?: number | null;
+  currency?: string | null;
+  /** Amount off in each currency the coupon can be redeemed in, including `currency_options`. */
+  amountsOff: Record<string, number>;
+}
+
+export interface CouponRedemptionContext {
+  customerId: string;
+  planType: PlanType;
+  durationYears?: SubscriptionDurationYears;
+  billingCadence?: SubscriptionBillingCadence;
+  buyingGroupMember: boolean;
+  buyingGroupName?: string | null;
+}
+
+export type CouponDefinition = Omit<NewRecord<CouponRecord>, "id" | "stripePromotionCodeId"> & {
+  /** Also creates a Stripe promotion code for the coupon with the same code, expiry and redemption limit. */
+  createPromotionCode?: boolean;
+};
+
+const normalizeCode = (code: string): string => code.trim().toLowerCase();
+
+const getCouponAmountsOff = (coupon: Stripe.Coupon): Record<string, number> => {
+  const amountsOff: Record<string, number> = {};
+  if (coupon.amount_off && coupon.currency) {
+    amountsOff[coupon.currency] = coupon.amount_off;
+  }
+  for (const [currency, option] of Object.entries(coupon.currency_options ?? {})) {
+    amountsOff[currency] = option.amount_off;
+  }
+  return amountsOff;
+};
+
+/**
+ * Looks up a coupon code in the store. Codes from the legacy `COUPON_CODES` setting that aren't
+ * in the store are treated as active coupons without restrictions.
+ */
+export const findCouponRecord = async (code: string): Promise<CouponRecord | null> => {
+  const id = normalizeCode(code);
+  if (!id) {
+    return null;
+  }
+
+  const record = await store.coupons.get(id);
+  if (record) {
+    return record;
+  }
+
+  const stripeCouponId = getCouponIdForCode(id);
+  if (!stripeCouponId) {
+    return null;
+  }
+  const now = new Date().toISOString();
+  return { id, code: code.trim(), stripeCouponId, active: true, createdAt: now, updatedAt: now };
+};
+
+const toCouponDetails = async (record: CouponRecord): Promise<CouponDetails> => {
+  const coupon = await retrieveCoupon(record.stripeCouponId);
+  return {
+    code: record.code,
+    couponId: coupon.id,
+    promotionCodeId: record.stripePromotionCodeId ?? null,
+    percentOff: coupon.percent_off,
+    amountOff: coupon.amount_off,
+    currency: coupon.currency,
+    amountsOff: getCouponAmountsOff(coupon),
+  };
+};
+
+/**
+ * Resolves a coupon code that is already applied, e.g. to an existing subscription, without checking
+ * whether it could be redeemed again. Returns null for unknown codes.
+ */
+export const resolveCoupon = async (code?: string | null): Promise<CouponDetails | null> => {
+  const record = code ? await findCouponRecord(code) : null;
+  return record ? toCouponDetails(record) : null;
+};
+
+// Subscription invoices are recorded too, so a paid invoice covers both kinds of order
+const hasPreviousOrders = async (customerId: string): Promise<boolean> => {
+  const invoice = await store.invoices.findOne(
+    (record) => record.customerId === customerId && record.status === "paid",
+  );
+  return Boolean(invoice);
+};
+
+const isEmpty = (values?: unknown[] | null): boolean => !values || values.length === 0;
+
+const checkRestrictions = async (record: CouponRecord, context: CouponRedemptionContext, now: Date): Promise<void> => {
+  const reject = (reason: CouponRejectionReason, message: string) => {
+    throw new CouponValidationError(reason, message);
+  };
+
+  if (!record.active) {
+    reject("inactive", `Coupon ${record.code} is no longer active.`);
+  }
+  if (record.expiresAt && new Date(record.expiresAt) <= now) {
+    reject("expired", `Coupon ${record.code} has expired.`);
+  }
+
+  if (!isEmpty(record.planTypes) && !record.planTypes!.includes(context.planType)) {
+    const orderType = context.planType === PlanType.OneTime ? "one-time orders" : "subscriptions";
+    reject("plan_not_eligible", `Coupon ${record.code} can't be used for ${orderType}.`);
+  }
+  if (context.planType === PlanType.Subscription) {
+    if (!isEmpty(record.durationYears) && !record.durationYears!.includes(context.durationYears!)) {
+      reject("plan_not_eligible", `Coupon ${record.code} can't be used for a ${context.durationYears}-year plan.`);
+    }
+    if (!isEmpty(record.billingCadences) && !record.billingCadences!.includes(context.billingCadence!)) {
+      reject("plan_not_eligible", `Coupon ${record.code} can't be used with ${context.billingCadence} billing.`);
+    }
+  }
+
+  if (record.buyingGroupOnly) {
+    const groupName = context.buyingGroupName?.trim().toLowerCase();
+    const allowedGroups = (record.buyingGroupNames ?? []).map((name) => name.trim().toLowerCase());
+    if (!context.buyingGroupMember || (allowedGroups.length > 0 && !allowedGroups.includes(groupName ?? ""))) {
+      reject("buying_group_only", `Coupon ${record.code} is only available to buying group members.`);
+    }
+  }
+
+  if (record.firstOrderOnly && (await hasPreviousOrders(context.customerId))) {
+    reject("first_order_only", `Coupon ${record.code} is only valid on a first order.`);
+  }
+
+  if (record.maxRedemptions || record.maxRedemptionsPerCustomer) {
+    const redemptions = await store.couponRedemptions.find((redemption) => redemption.couponId === record.id);
+    if (record.maxRedemptions && redemptions.length >= record.maxRedemptions) {
+      reject("max_redemptions_reached", `Coupon ${record.code} has been fully redeemed.`);
+    }
+    const customerRedemptions = redemptions.filter((redemption) => redemption.customerId === context.customerId);
+    if (record.maxRedemptionsPerCustomer && customerRedemptions.length >= record.maxRedemptionsPerCustomer) {
+      reject("customer_limit_reached", `Coupon ${record.code} has already been used the maximum number of times.`);
+    }
+  }
+};
+
+/**
+ * Checks that a coupon code can be used for an order and resolves its discount.
+ * Returns null when no code is given, and throws a `CouponValidationError` when the code can't be used.
+ */
+export const validateCoupon = async (
+  code: string | null | undefined,
+  context: CouponRedemptionContext,
+  now = new Date(),
+): Promise<CouponDetails | null> => {
+  if (!code?.trim()) {
+    return null;
+  }
+
+  const record = await findCouponRecord(code);
+  try {
+    if (!record) {
+      throw new CouponValidationError("unknown_code", `Coupon code ${code.trim()} is not valid.`);
+    }
+    await checkRestrictions(record, context, now);
+  } catch (error) {
+    if (error instanceof CouponValidationError) {
+      couponRejections.inc({ reason: error.code });
+    }
+    throw error;
+  }
+  return toCouponDetails(record);
+};
+
+/**
+ * Records the use of a coupon on an invoice or subscription. Recording the same order twice has no effect.
+ */
+export const recordCouponRedemption = async (
+  couponCode: string,
+  redemption: Omit<NewRecord<CouponRedemptionRecord>, "id" | "couponId">,
+): Promise<CouponRedemptionRecord> => {
+  const couponId = normalizeCode(couponCode);
+  const id = `${couponId}:${redemption.invoiceId ?? redemption.subscriptionId}`;
+  const existing = await store.couponRedemptions.get(id);
+  if (existing) {
+    return existing;
+  }
+  const record = await store.couponRedemptions.upsert({ ...redemption, id, couponId });
+  couponRedemptions.inc({ code: couponId, plan_type: redemption.planType });
+  return record;
+};
+
+/**
+ * Records the coupon used on an order once an invoice for it is paid. The code comes from the `coupon_code`
+ * metadata set at checkout: the subscription's for subscription invoices, the invoice's for one-time orders.
+ */
+export const recordPaidCouponRedemption = async (invoice: Stripe.Invoice): Promise<CouponRedemptionRecord | null> => {
+  const subscriptionId = typeof invoice.subscription === "string" ? invoice.subscription : invoice.subscription?.id;
+  const couponCode = subscriptionId
+    ? invoice.subscription_details?.metadata?.coupon_code
+    : invoice.metadata?.coupon_code;
+  if (!couponCode) {
+    return null;
+  }
+  const customerId = typeof invoice.customer === "string" ? invoice.customer : (invoice.customer?.id ?? "");
+  return recordCouponRedemption(
+    couponCode,
+    subscriptionId
+      ? { customerId, planType: PlanType.Subscription, subscriptionId }
+      : { customerId, planType: PlanType.OneTime, invoiceId: invoice.id },
+  );
+};
+
+/**
+ * The discount to apply to an invoice or subscription: the promotion code when the coupon has one,
+ * so Stripe tracks its redemptions, or the coupon itself.
+ */
+export const getStripeDiscount = (coupon: CouponDetails): { coupon?: string; promotion_code?: string } =>
+  coupon.promotionCodeId ? { promotion_code: coupon.promotionCodeId } : { coupon: coupon.couponId };
+
+/**
+ * Creates or replaces a coupon code. The Stripe coupon must already exist; moving the code to another coupon
+ * deactivates the promotion code of the previous one.
+ */
+export const saveCoupon = async (
+  definition: CouponDefinition,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<CouponRecord> => {
+  const { createPromotionCode, ...fields } = definition;
+  const id = normalizeCode(fields.code);
+  const existing = await store.coupons.get(id);
+  // Make sure the coupon exists before the code can be handed out
+  try {
+    await retrieveCoupon(fields.stripeCouponId);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === "resource_missing") {
+      throw new NotFoundError("stripe_coupon_not_found", `Stripe coupon ${fields.stripeCouponId} does not exist.`, {
+        param: "stripeCouponId",
+      });
+    }
+    throw error;
+  }
+
+  let stripePromotionCodeId =
+    existing?.stripeCouponId === fields.stripeCouponId ? existing.stripePromotionCodeId : null;
+  // A promotion code belongs to one coupon, so the old one is retired first; Stripe also allows only one
+  // active promotion code with the same code
+  if (existing?.stripePromotionCodeId && existing.stripeCouponId !== fields.stripeCouponId) {
+    await stripe.promotionCodes.update(
+      existing.stripePromotionCodeId,
+      { active: false },
+      requestOptions("promotion_code.deactivate"),
+    );
+  }
+  if (createPromotionCode && !stripePromotionCodeId) {
+    const promotionCode = await stripe.promotionCodes.create(
+      {
+        coupon: fields.stripeCouponId,
+        code: fields.code.trim(),
+        max_redemptions: fields.maxRedemptions ?? undefined,
+        expires_at: fields.expiresAt ? toUnixTimestamp(new Date(fields.expiresAt)) : undefined,
+        restrictions: { first_time_transaction: fields.firstOrderOnly ?? false },
+      },
+      requestOptions("promotion_code.create"),
+    );
+    stripePromotionCodeId = promotionCode.id;
+  }
+
+  return store.coupons.upsert({ ...fields, id, code: fields.code.trim(), stripePromotionCodeId });
+};
+
+/**
+ * Stops a coupon code from being redeemed, including its Stripe promotion code.
+ */
+export const deactivateCoupon = async (
+  code: string,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<CouponRecord | null> => {
+  const record = await store.coupons.get(normalizeCode(code));
+  if (!record) {
+    return null;
+  }
+  if (record.stripePromotionCodeId) {
+    await stripe.promotionCodes.update(
+      record.stripePromotionCodeId,
+      { active: false },
+      requestOptions("promotion_code.deactivate"),
+    );
+  }
+  return store.coupons.upsert({ ...record, active: false });
+};
+
+/**
+ * Number of times a coupon code has been redeemed, overall and per customer.
+ */
+export const getCouponUsage = async (code: string) => {
+  const couponId = normalizeCode(code);
+  const redemptions = await store.couponRedemptions.find((redemption) => redemption.couponId === couponId);
+  const customers = new Set(redemptions.map((redemption) => redemption.customerId));
+  return { timesRedeemed: redemptions.length, customers: customers.size };
+};
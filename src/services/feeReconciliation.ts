@@ -0,0 +1,115 @@
+import Stripe from "stripe";
+import { noRequestOptions, stripe } from "../lib/stripe";
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import type { SubscriptionBillingCadence, SubscriptionDurationYears } from "../config";
+import { store } from "../store";
+import { syncSubscription } from "./records";
+import { getDefaultPaymentMethodId, getSubscriptionItems, retrievePaymentMethod } from "./stripeHelpers";
+import { buildPlanChange } from "./subscriptionManagement";
+
+const RECONCILED_STATUSES = new Set<Stripe.Subscription.Status>(["trialing", "active", "past_due", "unpaid"]);
+
+export interface FeeReconciliationResult {
+  subscriptionId: string;
+  previousFeeAmount: number;
+  creditCardFeeAmount: number;
+  changed: boolean;
+}
+
+const getDefaultPaymentMethodIdOf = (subscription: Stripe.Subscription): string | null => {
+  const paymentMethod = subscription.default_payment_method;
+  return typeof paymentMethod === "string" ? paymentMethod : (paymentMethod?.id ?? null);
+};
+
+/**
+ * Records a customer's new default payment method in the local store.
+ */
+const recordDefaultPaymentMethod = async (customerId: string, paymentMethod: Stripe.PaymentMethod): Promise<void> => {
+  const existing = await store.customers.get(customerId);
+  if (!existing) {
+    return;
+  }
+  await store.customers.upsert({
+    ...existing,
+    defaultPaymentMethodId: paymentMethod.id,
+    cardFunding: paymentMethod.card?.funding ?? null,
+  });
+};
+
+/**
+ * Moves every active subscription of a customer onto the customer's default payment method and adds,
+ * removes or re-prices the credit card fee item to match that payment method. The plan item keeps its
+ * price. Fee changes apply from the next billing period; the current period is not prorated.
+ */
+export const reconcileCreditCardFees = async (
+  customerId: string,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<FeeReconciliationResult[]> => {
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted) {
+    return [];
+  }
+
+  const paymentMethodId = getDefaultPaymentMethodId(customer as Stripe.Customer);
+  if (!paymentMethodId) {
+    return [];
+  }
+  const paymentMethod = await retrievePaymentMethod(paymentMethodId);
+  await recordDefaultPaymentMethod(customerId, paymentMethod);
+
+  const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: "all", limit: 100 });
+  const results: FeeReconciliationResult[] = [];
+
+  for (const subscription of subscriptions.data) {
+    const durationYears = Number(subscription.metadata.duration_years) as SubscriptionDurationYears;
+    const billingCadence = subscription.metadata.billing_cadence as SubscriptionBillingCadence;
+    if (!RECONCILED_STATUSES.has(subscription.status) || !durationYears || !billingCadence) {
+      continue;
+    }
+    // Subscriptions paid by invoice don't use the default payment method
+    if (subscription.collection_method === "send_invoice") {
+      continue;
+    }
+
+    // Keys are derived per subscription, as the same steps run once for each of them
+    const subscriptionRequestOptions: StripeRequestOptionsFactory = (step) =>
+      requestOptions(`${subscription.id}.${step}`);
+
+    const { feeItem } = getSubscriptionItems(subscription);
+    const previousFeeAmount = feeItem?.price.unit_amount ?? 0;
+    const change = await buildPlanChange(subscription, { durationYears, billingCadence }, subscriptionRequestOptions, {
+      paymentMethod,
+    });
+
+    const feeChanged = change.creditCardFeeAmount !== previousFeeAmount;
+    const paymentMethodChanged = getDefaultPaymentMethodIdOf(subscription) !== paymentMethod.id;
+    if (feeChanged || paymentMethodChanged) {
+      const updated = await stripe.subscriptions.update(
+        subscription.id,
+        {
+          default_payment_method: paymentMethod.id,
+          items: change.feeItems,
+          proration_behavior: "none",
+          metadata: {
+            credit_card_fee_cents: change.creditCardFeeAmount.toString(),
+            fee_percent_applied: change.metadata.fee_percent_applied,
+            surcharge_rule: change.metadata.surcharge_rule,
+            surcharge_reason: change.metadata.surcharge_reason,
+            payment_method_funding: paymentMethod.card?.funding ?? paymentMethod.type,
+          },
+        },
+        subscriptionRequestOptions("subscription.update"),
+      );
+      await syncSubscription(updated);
+    }
+
+    results.push({
+      subscriptionId: subscription.id,
+      previousFeeAmount,
+      creditCardFeeAmount: change.creditCardFeeAmount,
+      changed: feeChanged || paymentMethodChanged,
+    });
+  }
+
+  return results;
+};
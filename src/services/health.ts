@@ -0,0 +1,104 @@
+import Stripe from "stripe";
+import { stripe } from "../lib/stripe";
+import { CATALOG_PRODUCTS, CREDIT_CARD_FEE_PRODUCT_ID, ONE_TIME_PRODUCT_ID, SHIPPING_PRODUCT_ID, env } from "../config";
+import type { BuyingGroupConfig } from "../config";
+
+export interface ReadinessCheck {
+  name: string;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checkedAt: string;
+  checks: ReadinessCheck[];
+}
+
+// Readiness probes run every few seconds; the result is reused for a while so they don't eat into Stripe rate limits
+const READINESS_CACHE_MS = 30 * 1000;
+
+let cachedReport: { report: ReadinessReport; expiresAt: number } | null = null;
+
+const unique = (values: (string | null | undefined)[]): string[] => [
+  ...new Set(values.filter((value): value is string => Boolean(value))),
+];
+
+const getConfiguredProductIds = (): string[] =>
+  unique([
+    ONE_TIME_PRODUCT_ID,
+    CREDIT_CARD_FEE_PRODUCT_ID,
+    SHIPPING_PRODUCT_ID,
+    ...CATALOG_PRODUCTS.map((product) => product.productId),
+  ]);
+
+const getConfiguredPriceIds = (): string[] =>
+  unique([
+    ...Object.values(env.subscriptionPriceIds.yearly),
+    ...Object.values(env.subscriptionPriceIds.monthly),
+    ...CATALOG_PRODUCTS.map((product) => product.priceId),
+    ...(env.buyingGroups as BuyingGroupConfig[]).flatMap((group) => Object.values(group.priceIds ?? {})),
+  ]);
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === "resource_missing") {
+    return "Not found in Stripe.";
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const runCheck = async (name: string, check: () => Promise<string | null>): Promise<ReadinessCheck> => {
+  try {
+    const error = await check();
+    return { name, ok: error === null, error };
+  } catch (error) {
+    return { name, ok: false, error: describeError(error) };
+  }
+};
+
+const checkProduct = (productId: string) =>
+  runCheck(`product:${productId}`, async () => {
+    const product = await stripe.products.retrieve(productId);
+    return product.active ? null : "Product is archived.";
+  });
+
+const checkPrice = (priceId: string) =>
+  runCheck(`price:${priceId}`, async () => {
+    const price = await stripe.prices.retrieve(priceId);
+    return price.active ? null : "Price is archived.";
+  });
+
+const buildReadinessReport = async (): Promise<ReadinessReport> => {
+  const credentials = await runCheck("stripe_credentials", async () => {
+    await stripe.balance.retrieve();
+    return null;
+  });
+  // Without working credentials every other lookup fails the same way
+  const checks = credentials.ok
+    ? [
+        credentials,
+        ...(await Promise.all([
+          ...getConfiguredProductIds().map(checkProduct),
+          ...getConfiguredPriceIds().map(checkPrice),
+        ])),
+      ]
+    : [credentials];
+
+  return {
+    ready: checks.every((check) => check.ok),
+    checkedAt: new Date().toISOString(),
+    checks,
+  };
+};
+
+/**
+ * Checks that the Stripe credentials work and that every configured product and price exists and is active.
+ */
+export const checkReadiness = async (now = Date.now()): Promise<ReadinessReport> => {
+  if (cachedReport && cachedReport.expiresAt > now) {
+    return cachedReport.report;
+  }
+  const report = await buildReadinessReport();
+  cachedReport = { report, expiresAt: now + READINESS_CACHE_MS };
+  return report;
+};
@@ -0,0 +1,263 @@
+import Stripe from "stripe";
+import { noRequestOptions, stripe } from "../lib/stripe";
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import { logger } from "../lib/logger";
+import { env } from "../config";
+import { store } from "../store";
+import type { InvoiceRecord } from "../store";
+import { fromUnixTimestamp } from "../utils/dates";
+import { schedulePeriodicTask } from "../utils/scheduler";
+import { startOfDayInTimezone } from "../utils/timezone";
+import { recordInvoice } from "./records";
+
+export interface ChargedInvoice {
+  invoice: Stripe.Invoice;
+  status: string;
+  /** Set when the card issuer requires the customer to authenticate the payment, e.g. with 3D Secure. */
+  authentication: PaymentAuthentication | null;
+}
+
+export interface PaymentAuthentication {
+  paymentIntentId: string;
+  /** Passed to Stripe.js `handleNextAction` (or `handleCardAction`) to let the customer authenticate. */
+  clientSecret: string;
+  /** Stripe's `next_action.type`, e.g. `use_stripe_sdk` or `redirect_to_url`. */
+  nextAction: string | null;
+  redirectUrl: string | null;
+}
+
+/**
+ * Returns what the frontend needs to let the customer authenticate a payment, or null when the
+ * payment intent doesn't require any action.
+ */
+export const getPaymentAuthentication = (
+  paymentIntent: Stripe.PaymentIntent | null | undefined,
+): PaymentAuthentication | null => {
+  if (!paymentIntent || paymentIntent.status !== "requires_action" || !paymentIntent.client_secret) {
+    return null;
+  }
+  return {
+    paymentIntentId: paymentIntent.id,
+    clientSecret: paymentIntent.client_secret,
+    nextAction: paymentIntent.next_action?.type ?? null,
+    redirectUrl: paymentIntent.next_action?.redirect_to_url?.url ?? null,
+  };
+};
+
+const retrieveInvoicePaymentIntent = async (invoice: Stripe.Invoice): Promise<Stripe.PaymentIntent | null> => {
+  if (!invoice.payment_intent) {
+    return null;
+  }
+  const paymentIntentId =
+    typeof invoice.payment_intent === "string" ? invoice.payment_intent : invoice.payment_intent.id;
+  return stripe.paymentIntents.retrieve(paymentIntentId);
+};
+
+/**
+ * Status of an invoice's payment: its payment intent status when it has one, otherwise derived from the invoice.
+ */
+const getInvoicePaymentStatus = (invoice: Stripe.Invoice, paymentIntent: Stripe.PaymentIntent | null): string => {
+  if (paymentIntent) {
+    return paymentIntent.status;
+  }
+  if (invoice.status === "paid") {
+    return "succeeded";
+  }
+  return invoice.status === "open" ? "processing" : "failed";
+};
+
+const requiresAuthentication = (error: unknown): boolean =>
+  error instanceof Stripe.errors.StripeCardError && error.code === "invoice_payment_intent_requires_action";
+
+export interface InvoiceDocuments {
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+  dueDate: string | null;
+}
+
+/**
+ * Links to the invoice for clinics paying by invoice: the hosted payment page and the PDF.
+ */
+export const getInvoiceDocuments = (invoice: Stripe.Invoice): InvoiceDocuments => ({
+  hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+  invoicePdf: invoice.invoice_pdf ?? null,
+  dueDate: invoice.due_date ? fromUnixTimestamp(invoice.due_date).toISOString() : null,
+});
+
+/**
+ * Retrieves an invoice, returning null when it doesn't exist.
+ */
+export const retrieveInvoice = async (invoiceId: string): Promise<Stripe.Invoice | null> => {
+  try {
+    return await stripe.invoices.retrieve(invoiceId);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === "resource_missing") {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Retrieves an invoice, returning null when it doesn't exist or belongs to another customer.
+ */
+export const retrieveCustomerInvoice = async (
+  invoiceId: string,
+  customerId: string,
+): Promise<Stripe.Invoice | null> => {
+  const invoice = await retrieveInvoice(invoiceId);
+  if (!invoice) {
+    return null;
+  }
+  const ownerId = typeof invoice.customer === "string" ? invoice.customer : invoice.customer?.id;
+  return ownerId === customerId ? invoice : null;
+};
+
+/**
+ * Returns when an order with the given desired start date should be charged: midnight of that date in the
+ * clinic's timezone, or null when that moment has already passed and the order should be charged right away.
+ */
+export const getScheduledChargeDate = (
+  desiredStartDate: string,
+  clinicTimezone: string,
+  now = new Date(),
+): Date | null => {
+  const chargeAt = startOfDayInTimezone(desiredStartDate, clinicTimezone);
+  return chargeAt > now ? chargeAt : null;
+};
+
+/**
+ * Finalizes a draft invoice and charges the given payment method for it.
+ * The returned status is the invoice's payment intent status, when it has one.
+ */
+export const chargeInvoice = async (
+  invoiceId: string,
+  paymentMethodId: string,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<ChargedInvoice> => {
+  const finalizedInvoice = await stripe.invoices.finalizeInvoice(
+    invoiceId,
+    {
+      auto_advance: true,
+    },
+    requestOptions("invoice.finalize"),
+  );
+  logger.info("invoice.finalized", { invoiceId: finalizedInvoice.id, amountDue: finalizedInvoice.amount_due });
+
+  // Pay the invoice (this will charge the default payment method)
+  let paidInvoice: Stripe.Invoice;
+  try {
+    paidInvoice = await stripe.invoices.pay(
+      finalizedInvoice.id,
+      {
+        payment_method: paymentMethodId,
+      },
+      requestOptions("invoice.pay"),
+    );
+  } catch (error) {
+    // The invoice stays open until the customer authenticates the payment
+    if (!requiresAuthentication(error)) {
+      logger.warn("invoice.payment_failed", { invoiceId: finalizedInvoice.id, error });
+      throw error;
+    }
+    paidInvoice = await stripe.invoices.retrieve(finalizedInvoice.id);
+  }
+  await recordInvoice(paidInvoice);
+
+  const paymentIntent = await retrieveInvoicePaymentIntent(paidInvoice);
+  const status = getInvoicePaymentStatus(paidInvoice, paymentIntent);
+  const authentication = getPaymentAuthentication(paymentIntent);
+  logger.info("invoice.charged", {
+    invoiceId: paidInvoice.id,
+    invoiceStatus: paidInvoice.status,
+    status,
+    requiresAuthentication: authentication !== null,
+  });
+  return { invoice: paidInvoice, status, authentication };
+};
+
+/**
+ * Finalizes a draft invoice with `send_invoice` collection and emails it to the customer for payment.
+ */
+export const sendInvoiceForPayment = async (
+  invoiceId: string,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<Stripe.Invoice> => {
+  await stripe.invoices.finalizeInvoice(invoiceId, { auto_advance: true }, requestOptions("invoice.finalize"));
+  const sentInvoice = await stripe.invoices.sendInvoice(invoiceId, undefined, requestOptions("invoice.send"));
+  await recordInvoice(sentInvoice);
+  logger.info("invoice.sent", {
+    invoiceId: sentInvoice.id,
+    amountDue: sentInvoice.amount_due,
+    dueDate: sentInvoice.due_date ? fromUnixTimestamp(sentInvoice.due_date).toISOString() : null,
+  });
+  return sentInvoice;
+};
+
+/**
+ * Re-checks an invoice's payment after the customer has gone through authentication on the frontend.
+ * Payment intents that still need confirming afterwards, e.g. after `handleCardAction`, are confirmed here.
+ */
+export const completeInvoicePayment = async (
+  invoice: Stripe.Invoice,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<ChargedInvoice> => {
+  let paymentIntent = await retrieveInvoicePaymentIntent(invoice);
+
+  if (paymentIntent?.status === "requires_confirmation") {
+    paymentIntent = await stripe.paymentIntents.confirm(
+      paymentIntent.id,
+      undefined,
+      requestOptions("payment_intent.confirm"),
+    );
+    invoice = await stripe.invoices.retrieve(invoice.id);
+  }
+  await recordInvoice(invoice);
+
+  const status = getInvoicePaymentStatus(invoice, paymentIntent);
+  logger.info("invoice.payment_completed", { invoiceId: invoice.id, invoiceStatus: invoice.status, status });
+  return {
+    invoice,
+    status,
+    authentication: getPaymentAuthentication(paymentIntent),
+  };
+};
+
+type ScheduledChargeRecord = InvoiceRecord & { scheduledChargeAt: string; paymentMethodId: string };
+
+const isScheduledChargeDue =
+  (now: Date) =>
+  (record: InvoiceRecord): record is ScheduledChargeRecord =>
+    record.status === "draft" &&
+    Boolean(record.paymentMethodId) &&
+    typeof record.scheduledChargeAt === "string" &&
+    new Date(record.scheduledChargeAt) <= now;
+
+/**
+ * Charges draft invoices whose scheduled charge date has arrived.
+ */
+export const processScheduledCharges = async (now = new Date()): Promise<void> => {
+  const dueInvoices = (await store.invoices.list()).filter(isScheduledChargeDue(now));
+
+  for (const record of dueInvoices) {
+    try {
+      const { status } = await chargeInvoice(record.id, record.paymentMethodId, (step) => ({
+        idempotencyKey: `scheduled-charge:${record.id}:${step}`,
+      }));
+      logger.info("invoice.scheduled_charge_processed", { invoiceId: record.id, status });
+    } catch (error) {
+      logger.error("invoice.scheduled_charge_failed", { invoiceId: record.id, error });
+      // Refreshing the local copy is best effort; one invoice failing must not hold up the others
+      try {
+        await recordInvoice(await stripe.invoices.retrieve(record.id));
+      } catch (refreshError) {
+        logger.error("invoice.scheduled_charge_refresh_failed", { invoiceId: record.id, error: refreshError });
+      }
+    }
+  }
+};
+
+export const startScheduledChargeScheduler = (): (() => void) =>
+  schedulePeriodicTask("process scheduled charges", env.scheduledChargeCheckIntervalMinutes, () =>
+    processScheduledCharges(),
+  );
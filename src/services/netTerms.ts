@@ -0,0 +1,34 @@
+import Stripe from "stripe";
+import { stripe } from "../lib/stripe";
+import { NET_TERMS_DAYS_UNTIL_DUE } from "../config";
+
+export interface NetTermsDecision {
+  allowed: boolean;
+  /** Days the clinic has to pay a sent invoice; null when pay by invoice isn't allowed. */
+  daysUntilDue: number | null;
+  /** Why pay by invoice isn't allowed, meant to be shown at checkout. */
+  reason: string | null;
+}
+
+/**
+ * Decides whether a customer may pay by invoice (net terms) and when the invoice is due. Customers are
+ * approved by setting `net_terms_approved` to `true` in their Stripe metadata, and `net_terms_days` overrides
+ * the default payment terms. A requested number of days can shorten the approved terms, but not extend them.
+ */
+export const resolveNetTerms = async (customerId: string, requestedDays?: number): Promise<NetTermsDecision> => {
+  const customer = await stripe.customers.retrieve(customerId);
+  const metadata = customer.deleted ? {} : (customer as Stripe.Customer).metadata;
+  if (metadata.net_terms_approved !== "true") {
+    return { allowed: false, daysUntilDue: null, reason: "Pay by invoice is not available for this account." };
+  }
+
+  const approvedDays = Number(metadata.net_terms_days) || NET_TERMS_DAYS_UNTIL_DUE;
+  if (requestedDays !== undefined && requestedDays > approvedDays) {
+    return {
+      allowed: false,
+      daysUntilDue: null,
+      reason: `Invoices can be due at most ${approvedDays} days after they are sent.`,
+    };
+  }
+  return { allowed: true, daysUntilDue: requestedDays ?? approvedDays, reason: null };
+};
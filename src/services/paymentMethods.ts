@@ -0,0 +1,54 @@
+import Stripe from "stripe";
+import {
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_METHOD_TYPES,
+  canChargeInCurrency,
+  isPaymentMethodTypeEnabled,
+} from "../config";
+
+export interface SetupVerification {
+  status: Stripe.SetupIntent.Status;
+  /** Stripe's `next_action.type`, e.g. `verify_with_microdeposits` while a bank account awaits microdeposits. */
+  nextAction: string | null;
+  /** Page where the customer enters the microdeposit amounts. */
+  hostedVerificationUrl: string | null;
+}
+
+/**
+ * Why the payment method can't be used, or can't pay in the given currency. Returns null when it can.
+ * The message is meant to be shown at checkout.
+ */
+export const getPaymentMethodError = (paymentMethod: Stripe.PaymentMethod, currency?: string): string | null => {
+  if (!isPaymentMethodTypeEnabled(paymentMethod.type)) {
+    if (PAYMENT_METHOD_TYPES.length === 1) {
+      return "Only card payment methods are supported.";
+    }
+    const supported = PAYMENT_METHOD_TYPES.map((type) => PAYMENT_METHOD_LABELS[type]).join(", ");
+    return `This payment method is not supported. Please use one of: ${supported}.`;
+  }
+  if (currency && !canChargeInCurrency(paymentMethod.type, currency)) {
+    return `${PAYMENT_METHOD_LABELS[paymentMethod.type]} payments can't be made in ${currency.toUpperCase()}.`;
+  }
+  return null;
+};
+
+/**
+ * Setup intent options for the payment method. Bank accounts are verified instantly through Financial
+ * Connections where possible, and with microdeposits otherwise.
+ */
+export const getSetupIntentPaymentMethodParams = (
+  paymentMethod: Stripe.PaymentMethod,
+): Pick<Stripe.SetupIntentCreateParams, "payment_method_types" | "payment_method_options"> => ({
+  payment_method_types: [paymentMethod.type],
+  payment_method_options:
+    paymentMethod.type === "us_bank_account" ? { us_bank_account: { verification_method: "automatic" } } : undefined,
+});
+
+/**
+ * Where a setup intent is in collecting and verifying the payment method.
+ */
+export const getSetupVerification = (setupIntent: Stripe.SetupIntent): SetupVerification => ({
+  status: setupIntent.status,
+  nextAction: setupIntent.next_action?.type ?? null,
+  hostedVerificationUrl: setupIntent.next_action?.verify_with_microdeposits?.hosted_verification_url ?? null,
+});
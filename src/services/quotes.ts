@@ -0,0 +1,438 @@
+import Stripe from "stripe";
+import { stripe } from "../lib/stripe";
+import { ConfigurationError } from "../lib/errors";
+import {
+  BASE_CURRENCY,
+  CREDIT_CARD_FEE_DESCRIPTION,
+  ONE_TIME_PRODUCT_ID,
+  getBuyingGroupPriceId,
+  getCurrencyForCountry,
+  getSubscriptionPlan,
+} from "../config";
+import type {
+  BuyingGroupConfig,
+  ShippingServiceLevel,
+  SubscriptionBillingCadence,
+  SubscriptionDurationYears,
+} from "../config";
+import { resolveCartItems } from "./catalog";
+import type { CartItem, ResolvedCartItem } from "./catalog";
+import type { CouponDetails } from "./coupons";
+import { quoteShipping } from "./shipping";
+import type { ShippingQuote } from "./shipping";
+import { evaluateSurcharge } from "./surchargePolicy";
+import type { SurchargeDecision } from "./surchargePolicy";
+import { calculateTax } from "./tax";
+import type { TaxAddress, TaxCalculation } from "./tax";
+import { computeOneTimeBreakdown, percentageToAmount } from "../utils/amounts";
+import type { AmountBreakdown } from "../utils/amounts";
+
+export type QuoteLineItemKind = "product" | "discount" | "shipping" | "credit_card_fee" | "tax";
+
+export interface QuoteLineItem {
+  kind: QuoteLineItemKind;
+  description: string;
+  amount: number;
+  /** Set on product line items. */
+  quantity?: number;
+  unitAmount?: number;
+}
+
+export interface QuoteLine {
+  price: Stripe.Price;
+  quantity: number;
+  /** Unit amount of the price in the quote's currency. */
+  listUnitAmount: number;
+  /** Unit amount billed, after the buying group's contract discount. */
+  unitAmount: number;
+  /** Buying group discount billed as an inline price on this line, if any. */
+  contractDiscountPercent: number | null;
+  /** Whether the line is billed at the buying group's contract pricing, by its own price or its discount. */
+  hasContractPricing: boolean;
+}
+
+export interface Quote {
+  currency: string;
+  /** Price of the first line: the one-time product, or the subscription plan. */
+  price: Stripe.Price;
+  lines: QuoteLine[];
+  breakdown: AmountBreakdown;
+  lineItems: QuoteLineItem[];
+  coupon: CouponDetails | null;
+  couponPercent?: number;
+  couponAmountOff?: number;
+  appliesCreditCardFee: boolean;
+  surcharge: SurchargeDecision;
+  tax: TaxCalculation;
+  shipping: ShippingQuote;
+  buyingGroupPricing: BuyingGroupPricing | null;
+  cardFunding: string;
+}
+
+export interface BuyingGroupPricing {
+  name: string;
+  /** Set when the group gets a discount off the list price rather than its own Stripe price. */
+  discountPercent: number | null;
+  listAmount: number;
+}
+
+/**
+ * The price's unit amount in the given currency, taken from its `currency_options` when the currency
+ * isn't the price's own. Returns null when the price can't be billed in that currency, or when
+ * `currency_options` wasn't expanded.
+ */
+export const getPriceUnitAmount = (price: Stripe.Price, currency: string): number | null => {
+  if (price.currency === currency) {
+    return price.unit_amount ?? null;
+  }
+  return price.currency_options?.[currency]?.unit_amount ?? null;
+};
+
+// A price of 0 is valid, e.g. a free product; only a missing amount is rejected
+const ensureCurrencySupported = (price: Stripe.Price, currency: string): void => {
+  if (getPriceUnitAmount(price, currency) === null) {
+    throw new ConfigurationError(`Price ${price.id} has no unit amount in ${currency}`);
+  }
+};
+
+const getProductName = (price: Stripe.Price, fallback: string): string => {
+  if (price.product && typeof price.product !== "string" && "name" in price.product) {
+    return price.product.name;
+  }
+  return price.nickname ?? fallback;
+};
+
+const getPriceProductId = (price: Stripe.Price): string =>
+  typeof price.product === "string" ? price.product : price.product.id;
+
+/**
+ * Retrieves the price of an ordered catalog item and checks that it can be billed in the given currency
+ * as a non-recurring line item. The one-time product is billed at the buying group's price when the group
+ * has one; other products at their configured price, or the product's default price.
+ */
+export const retrieveOneTimePrice = async (
+  currency = BASE_CURRENCY,
+  buyingGroup: BuyingGroupConfig | null = null,
+  item?: ResolvedCartItem,
+): Promise<Stripe.Price> => {
+  const productId = item?.product.productId ?? ONE_TIME_PRODUCT_ID;
+  let priceId = item?.priceId ?? (productId === ONE_TIME_PRODUCT_ID ? getBuyingGroupPriceId(buyingGroup) : undefined);
+  if (!priceId) {
+    const product = await stripe.products.retrieve(productId);
+    priceId = product.default_price as string;
+  }
+  const oneTimePrice = await stripe.prices.retrieve(priceId, {
+    expand: ["product", "currency_options"],
+  });
+
+  ensureCurrencySupported(oneTimePrice, currency);
+
+  if (oneTimePrice.recurring) {
+    throw new ConfigurationError("One-time price must not be recurring.");
+  }
+  if (getPriceProductId(oneTimePrice) !== productId) {
+    throw new ConfigurationError(`Price ${priceId} does not belong to product ${productId}`);
+  }
+
+  return oneTimePrice;
+};
+
+/**
+ * Retrieves the Stripe price configured for the given subscription plan, or the buying group's price for it,
+ * and checks that it is a recurring price with a unit amount in the given currency.
+ */
+export const retrieveSubscriptionPrice = async (
+  durationYears: SubscriptionDurationYears,
+  cadence: SubscriptionBillingCadence,
+  currency = BASE_CURRENCY,
+  buyingGroup: BuyingGroupConfig | null = null,
+): Promise<Stripe.Price> => {
+  const plan = getSubscriptionPlan(durationYears, cadence);
+  const priceId = getBuyingGroupPriceId(buyingGroup, plan) ?? plan.priceId!;
+  const price = await stripe.prices.retrieve(priceId, { expand: ["product", "currency_options"] });
+  ensureCurrencySupported(price, currency);
+
+  if (!price.recurring) {
+    throw new ConfigurationError("Subscription price must have a recurring unit amount.");
+  }
+
+  return price;
+};
+
+const buildQuote = async (
+  prices: { price: Stripe.Price; quantity: number; isBuyingGroupPrice: boolean }[],
+  options: {
+    currency: string;
+    coupon?: CouponDetails | null;
+    /** Null for orders paid by invoice (net terms), which never carry the credit card fee. */
+    paymentMethod: Stripe.PaymentMethod | null;
+    /** Ship-to address, used for tax and shipping. */
+    address?: TaxAddress | null;
+    /** Billing address, used for surcharge rules. Defaults to the ship-to address. */
+    billingAddress?: TaxAddress | null;
+    buyingGroup?: BuyingGroupConfig | null;
+    shippingServiceLevel?: ShippingServiceLevel;
+    /** Ordered items shipping is scaled by; shipping is charged once when not given. */
+    shippingItems?: ResolvedCartItem[];
+    productFallbackName: string;
+  },
+): Promise<Quote> => {
+  const surcharge = evaluateSurcharge(options.paymentMethod, options.billingAddress ?? options.address);
+  const appliesCreditCardFee = surcharge.applies;
+  const coupon = options.coupon ?? null;
+
+  const couponPercent = coupon?.percentOff ?? undefined;
+  const couponAmountOff = coupon?.amountsOff[options.currency];
+
+  // A buying group's own price already includes its contract pricing; other prices get its discount
+  const lines: QuoteLine[] = prices.map(({ price, quantity, isBuyingGroupPrice }) => {
+    const listUnitAmount = getPriceUnitAmount(price, options.currency)!;
+    const contractDiscountPercent = isBuyingGroupPrice ? null : (options.buyingGroup?.discountPercent ?? null);
+    const unitAmount = contractDiscountPercent
+      ? listUnitAmount - percentageToAmount(listUnitAmount, contractDiscountPercent)
+      : listUnitAmount;
+    const hasContractPricing = isBuyingGroupPrice || Boolean(contractDiscountPercent);
+    return { price, quantity, listUnitAmount, unitAmount, contractDiscountPercent, hasContractPricing };
+  });
+  const discountPercent = options.buyingGroup?.discountPercent ?? null;
+  const buyingGroupPricing: BuyingGroupPricing | null =
+    options.buyingGroup && lines.some((line) => line.hasContractPricing)
+      ? {
+          name: options.buyingGroup.name,
+          discountPercent: lines.some((line) => line.contractDiscountPercent) ? discountPercent : null,
+          listAmount: lines.reduce((sum, line) => sum + line.listUnitAmount * line.quantity, 0),
+        }
+      : null;
+
+  const breakdownOptions = {
+    currency: options.currency,
+    couponPercent,
+    couponAmountsOff: coupon?.amountsOff,
+    appliesCreditCardFee,
+    creditCardFeePercent: surcharge.percent,
+    lines: lines.map((line) => ({ unitAmount: line.unitAmount, quantity: line.quantity })),
+  };
+  // Free shipping thresholds apply to the subtotal after discounts, before shipping and fees
+  const { subtotalAfterDiscount } = computeOneTimeBreakdown({ ...breakdownOptions, shippingAmount: 0 });
+  const shipping = quoteShipping({
+    currency: options.currency,
+    address: options.address,
+    serviceLevel: options.shippingServiceLevel,
+    items: options.shippingItems,
+    subtotal: subtotalAfterDiscount,
+  });
+  const untaxed = computeOneTimeBreakdown({ ...breakdownOptions, shippingAmount: shipping.amount });
+  const tax = await calculateTax({
+    currency: options.currency,
+    address: options.address,
+    productAmount: untaxed.subtotalAfterDiscount,
+    shippingAmount: untaxed.shippingAmount,
+  });
+  const breakdown = computeOneTimeBreakdown({
+    ...breakdownOptions,
+    shippingAmount: shipping.amount,
+    taxAmount: tax.amount,
+  });
+
+  const lineItems: QuoteLineItem[] = lines.map((line) => {
+    const productName = getProductName(line.price, options.productFallbackName);
+    return {
+      kind: "product",
+      description:
+        buyingGroupPricing && line.hasContractPricing
+          ? `${productName} (${buyingGroupPricing.name} pricing)`
+          : productName,
+      amount: line.unitAmount * line.quantity,
+      quantity: line.quantity,
+      unitAmount: line.unitAmount,
+    };
+  });
+  if (breakdown.discountAmount > 0) {
+    lineItems.push({
+      kind: "discount",
+      description: `Coupon ${coupon?.code ?? ""}`.trim(),
+      amount: -breakdown.discountAmount,
+    });
+  }
+  if (breakdown.shippingAmount > 0) {
+    lineItems.push({
+      kind: "shipping",
+      description: shipping.displayName,
+      amount: breakdown.shippingAmount,
+    });
+  }
+  if (breakdown.creditCardFeeAmount > 0) {
+    lineItems.push({
+      kind: "credit_card_fee",
+      description: CREDIT_CARD_FEE_DESCRIPTION,
+      amount: breakdown.creditCardFeeAmount,
+    });
+  }
+  if (breakdown.taxAmount > 0) {
+    lineItems.push({
+      kind: "tax",
+      description: tax.rate ? `Tax (${tax.rate.percent}%)` : "Tax",
+      amount: breakdown.taxAmount,
+    });
+  }
+
+  return {
+    currency: options.currency,
+    price: lines[0].price,
+    lines,
+    breakdown,
+    lineItems,
+    coupon,
+    couponPercent,
+    couponAmountOff,
+    appliesCreditCardFee,
+    surcharge,
+    tax,
+    shipping,
+    buyingGroupPricing,
+    cardFunding: options.paymentMethod?.card?.funding ?? "unknown",
+  };
+};
+
+/**
+ * Prices a one-time order without creating anything in Stripe.
+ * Used both by the quote endpoint and by the charge route, so both always agree on totals.
+ * The order is priced in the currency of the billing address's country unless a currency is given.
+ */
+export const quoteOneTimeOrder = async (options: {
+  /** Ordered items; a single one-time product when not given. Throws a `CatalogValidationError` for items not in the catalog. */
+  items?: CartItem[];
+  coupon?: CouponDetails | null;
+  paymentMethod: Stripe.PaymentMethod | null;
+  address?: TaxAddress | null;
+  billingAddress?: TaxAddress | null;
+  currency?: string;
+  buyingGroup?: BuyingGroupConfig | null;
+  shippingServiceLevel?: ShippingServiceLevel;
+}): Promise<Quote> => {
+  const { items, ...quoteOptions } = options;
+  const currency = options.currency ?? getCurrencyForCountry((options.billingAddress ?? options.address)?.country);
+  const buyingGroup = options.buyingGroup ?? null;
+  const cart = resolveCartItems(items);
+  const groupPriceId = getBuyingGroupPriceId(buyingGroup);
+  const prices = await Promise.all(
+    cart.map(async (item) => {
+      const price = await retrieveOneTimePrice(currency, buyingGroup, item);
+      return { price, quantity: item.quantity, isBuyingGroupPrice: price.id === groupPriceId };
+    }),
+  );
+  return buildQuote(prices, {
+    ...quoteOptions,
+    currency,
+    shippingItems: cart,
+    productFallbackName: "One-time order",
+  });
+};
+
+/**
+ * Prices the first invoice of a subscription plan without creating anything in Stripe.
+ * Shipping is included as it is added to the first subscription invoice.
+ */
+export const quoteSubscription = async (options: {
+  durationYears: SubscriptionDurationYears;
+  billingCadence: SubscriptionBillingCadence;
+  coupon?: CouponDetails | null;
+  paymentMethod: Stripe.PaymentMethod | null;
+  address?: TaxAddress | null;
+  billingAddress?: TaxAddress | null;
+  currency?: string;
+  buyingGroup?: BuyingGroupConfig | null;
+  shippingServiceLevel?: ShippingServiceLevel;
+}): Promise<Quote> => {
+  const currency = options.currency ?? getCurrencyForCountry((options.billingAddress ?? options.address)?.country);
+  const buyingGroup = options.buyingGroup ?? null;
+  const price = await retrieveSubscriptionPrice(options.durationYears, options.billingCadence, currency, buyingGroup);
+  const plan = getSubscriptionPlan(options.durationYears, options.billingCadence);
+  return buildQuote(
+    [{ price, quantity: 1, isBuyingGroupPrice: price.id === getBuyingGroupPriceId(buyingGroup, plan) }],
+    {
+      currency,
+      coupon: options.coupon,
+      paymentMethod: options.paymentMethod,
+      address: options.address,
+      billingAddress: options.billingAddress,
+      buyingGroup,
+      shippingServiceLevel: options.shippingServiceLevel,
+      productFallbackName: `${options.durationYears}-year ${options.billingCadence} subscription`,
+    },
+  );
+};
+
+export const serializeQuote = (quote: Quote) => ({
+  currency: quote.currency,
+  ...quote.breakdown,
+  lineItems: quote.lineItems,
+  coupon: {
+    percentOff: quote.couponPercent ?? null,
+    amountOff: quote.couponAmountOff ?? null,
+  },
+  cardFunding: quote.cardFunding,
+  surcharge: {
+    applies: quote.surcharge.applies,
+    percent: quote.surcharge.percent,
+    rule: quote.surcharge.ruleId,
+    reason: quote.surcharge.reason,
+  },
+  tax: {
+    mode: quote.tax.mode,
+    region: quote.tax.rate?.region ?? null,
+    percent: quote.tax.rate?.percent ?? null,
+  },
+  shipping: {
+    rate: quote.shipping.rateId,
+    serviceLevel: quote.shipping.serviceLevel,
+    displayName: quote.shipping.displayName,
+    freeShipping: quote.shipping.freeShipping,
+    deliveryDays: quote.shipping.deliveryDays,
+  },
+  buyingGroup: quote.buyingGroupPricing,
+});
+
+/**
+ * Price for a product line item of a one-time invoice. A buying group discount is billed as an
+ * inline price at the contract amount, so the invoice matches the quote.
+ */
+export const getInvoiceItemPriceParams = (
+  quote: Quote,
+  line: QuoteLine,
+): Pick<Stripe.InvoiceItemCreateParams, "price" | "price_data"> => {
+  if (!line.contractDiscountPercent) {
+    return { price: line.price.id };
+  }
+  return {
+    price_data: {
+      currency: quote.currency,
+      product: getPriceProductId(line.price),
+      unit_amount: line.unitAmount,
+    },
+  };
+};
+
+/**
+ * Price for the plan item of a subscription, billed as an inline recurring price at the contract amount
+ * when the clinic's buying group gets a discount.
+ */
+export const getSubscriptionItemPriceParams = (
+  quote: Quote,
+): Pick<Stripe.SubscriptionCreateParams.Item, "price" | "price_data"> => {
+  const [planLine] = quote.lines;
+  if (!planLine.contractDiscountPercent) {
+    return { price: planLine.price.id };
+  }
+  return {
+    price_data: {
+      currency: quote.currency,
+      product: getPriceProductId(planLine.price),
+      unit_amount: planLine.unitAmount,
+      recurring: {
+        interval: quote.price.recurring!.interval,
+        interval_count: quote.price.recurring!.interval_count,
+      },
+    },
+  };
+};
@@ -0,0 +1,241 @@
+import Stripe from "stripe";
+import { PlanType } from "../config";
+import type { SubscriptionBillingCadence, SubscriptionDurationYears } from "../config";
+import { stripe } from "../lib/stripe";
+import { store } from "../store";
+import type { ClinicAddressRecord, CustomerRecord, InvoiceRecord, SubscriptionRecord } from "../store";
+import { findCustomerByEmail, getDefaultPaymentMethodId, getSubscriptionItems } from "./stripeHelpers";
+import type { ClinicAddress, ClinicMetadata } from "./stripeHelpers";
+
+export interface CustomerReference {
+  customerId: string;
+  email: string;
+  defaultPaymentMethodId: string | null;
+  clinicAddress: ClinicAddressRecord | null;
+  billingAddress: ClinicAddressRecord | null;
+  shippingAddress: ClinicAddressRecord | null;
+  buyingGroupMember: boolean;
+  buyingGroupName: string | null;
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const toStringMetadata = (metadata: Stripe.Metadata | null | undefined): Record<string, string> => ({
+  ...(metadata ?? {}),
+});
+
+const clinicAddressFromStripe = (address: Stripe.Address | null | undefined): ClinicAddressRecord | undefined => {
+  if (!address?.country) {
+    return undefined;
+  }
+  return {
+    line1: address.line1 ?? undefined,
+    line2: address.line2 ?? undefined,
+    city: address.city ?? "",
+    state: address.state ?? undefined,
+    postalCode: address.postal_code ?? "",
+    country: address.country,
+  };
+};
+
+const customerRecordFromStripe = (customer: Stripe.Customer, email: string) => ({
+  id: customer.id,
+  email: normalizeEmail(customer.email ?? email),
+  clinic: {
+    name: customer.metadata.clinic_name || customer.name || "",
+    timezone: customer.metadata.clinic_timezone || "UTC",
+    address: clinicAddressFromStripe(customer.shipping?.address ?? customer.address),
+    billingAddress: clinicAddressFromStripe(customer.address),
+    shippingAddress: clinicAddressFromStripe(customer.shipping?.address),
+    buyingGroupMember: customer.metadata.buying_group_member === "true",
+    buyingGroupName: customer.metadata.buying_group_name || null,
+    desiredStartDate: customer.metadata.desired_start_date || null,
+    termsAcceptedAt: customer.metadata.terms_accepted_at || null,
+  },
+  defaultPaymentMethodId: getDefaultPaymentMethodId(customer),
+});
+
+/**
+ * Finds a customer by email in the local store, falling back to Stripe when it is not known locally.
+ * Customers found in Stripe are written to the store so the next lookup doesn't need a round trip; the
+ * `customer.updated` webhook keeps them current (see `syncCustomer`).
+ */
+export const resolveCustomer = async (email: string): Promise<CustomerReference> => {
+  const normalized = normalizeEmail(email);
+  let record: CustomerRecord | null = await store.customers.findOne((entry) => entry.email === normalized);
+
+  if (!record) {
+    const customer = await findCustomerByEmail(email);
+    record = await store.customers.upsert(customerRecordFromStripe(customer, email));
+  }
+
+  return {
+    customerId: record.id,
+    email: record.email,
+    defaultPaymentMethodId: record.defaultPaymentMethodId,
+    clinicAddress: record.clinic.address ?? null,
+    billingAddress: record.clinic.billingAddress ?? record.clinic.address ?? null,
+    shippingAddress: record.clinic.shippingAddress ?? record.clinic.address ?? null,
+    buyingGroupMember: record.clinic.buyingGroupMember,
+    buyingGroupName: record.clinic.buyingGroupName ?? null,
+  };
+};
+
+/**
+ * Updates the local copy of a customer from a Stripe customer object, e.g. one received in a webhook, so
+ * changes made in the Stripe dashboard reach `resolveCustomer`. Customers not known locally are ignored.
+ */
+export const syncCustomer = async (customer: Stripe.Customer): Promise<CustomerRecord | null> => {
+  const existing = await store.customers.get(customer.id);
+  if (!existing) {
+    return null;
+  }
+  return store.customers.upsert(customerRecordFromStripe(customer, existing.email));
+};
+
+export interface CustomerAddresses {
+  billing: ClinicAddressRecord | null;
+  shipping: ClinicAddressRecord | null;
+}
+
+/**
+ * Returns the billing and shipping addresses of a customer from the local store, falling back to the
+ * addresses on the Stripe customer. Either defaults to the clinic address.
+ */
+export const getCustomerAddresses = async (customerId: string): Promise<CustomerAddresses> => {
+  const record = await store.customers.get(customerId);
+  if (record?.clinic.address) {
+    return {
+      billing: record.clinic.billingAddress ?? record.clinic.address,
+      shipping: record.clinic.shippingAddress ?? record.clinic.address,
+    };
+  }
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted) {
+    return { billing: null, shipping: null };
+  }
+  const { shipping, address } = customer as Stripe.Customer;
+  const billingAddress = clinicAddressFromStripe(address);
+  const shippingAddress = clinicAddressFromStripe(shipping?.address);
+  return {
+    billing: billingAddress ?? shippingAddress ?? null,
+    shipping: shippingAddress ?? billingAddress ?? null,
+  };
+};
+
+/**
+ * Records a customer and their clinic. The default payment method is copied from the Stripe customer,
+ * where it is set once a setup intent succeeds.
+ */
+export const recordCustomer = async (
+  customer: Stripe.Customer,
+  details: {
+    email: string;
+    clinicMetadata: ClinicMetadata;
+    address: ClinicAddress;
+    billingAddress?: ClinicAddress;
+    shippingAddress?: ClinicAddress;
+  },
+): Promise<CustomerRecord> => {
+  const existing = await store.customers.get(customer.id);
+  const defaultPaymentMethodId = getDefaultPaymentMethodId(customer);
+  return store.customers.upsert({
+    id: customer.id,
+    email: normalizeEmail(details.email),
+    clinic: {
+      name: details.clinicMetadata.clinicName,
+      timezone: details.clinicMetadata.clinicTimezone,
+      address: details.address,
+      billingAddress: details.billingAddress,
+      shippingAddress: details.shippingAddress,
+      buyingGroupMember: details.clinicMetadata.buyingGroupMember,
+      buyingGroupName: details.clinicMetadata.buyingGroupName ?? null,
+      desiredStartDate: details.clinicMetadata.desiredStartDate ?? null,
+      termsAcceptedAt: details.clinicMetadata.termsAcceptedAt,
+    },
+    defaultPaymentMethodId,
+    cardFunding: existing?.defaultPaymentMethodId === defaultPaymentMethodId ? (existing.cardFunding ?? null) : null,
+  });
+};
+
+const getPlanTypeForInvoice = (invoice: Stripe.Invoice): PlanType => {
+  if (invoice.metadata?.plan_type === PlanType.OneTime || invoice.metadata?.plan_type === PlanType.Subscription) {
+    return invoice.metadata.plan_type;
+  }
+  return invoice.subscription ? PlanType.Subscription : PlanType.OneTime;
+};
+
+export const recordInvoice = async (
+  invoice: Stripe.Invoice,
+  planType?: PlanType,
+  schedule?: { paymentMethodId: string; scheduledChargeAt: Date },
+): Promise<InvoiceRecord> => {
+  const paymentIntent = invoice.payment_intent;
+  const subscription = invoice.subscription;
+  const defaultPaymentMethod = invoice.default_payment_method;
+  return store.invoices.upsert({
+    id: invoice.id,
+    customerId: typeof invoice.customer === "string" ? invoice.customer : (invoice.customer?.id ?? ""),
+    subscriptionId: typeof subscription === "string" ? subscription : (subscription?.id ?? null),
+    planType: planType ?? getPlanTypeForInvoice(invoice),
+    status: invoice.status ?? "draft",
+    totalAmount: invoice.total,
+    currency: invoice.currency,
+    paymentIntentId: typeof paymentIntent === "string" ? paymentIntent : (paymentIntent?.id ?? null),
+    paymentMethodId:
+      schedule?.paymentMethodId ??
+      (typeof defaultPaymentMethod === "string" ? defaultPaymentMethod : (defaultPaymentMethod?.id ?? null)),
+    ...(schedule ? { scheduledChargeAt: schedule.scheduledChargeAt.toISOString() } : {}),
+    metadata: toStringMetadata(invoice.metadata),
+  });
+};
+
+export const recordSubscription = async (
+  subscription: Stripe.Subscription,
+  plan: {
+    priceId: string;
+    feePriceId?: string | null;
+    durationYears: SubscriptionDurationYears;
+    billingCadence: SubscriptionBillingCadence;
+  },
+): Promise<SubscriptionRecord> => {
+  return store.subscriptions.upsert({
+    id: subscription.id,
+    customerId: typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id,
+    status: subscription.status,
+    priceId: plan.priceId,
+    feePriceId: plan.feePriceId ?? null,
+    durationYears: plan.durationYears,
+    billingCadence: plan.billingCadence,
+    currency: subscription.currency,
+    termEndsAt: subscription.metadata.term_ends_at || null,
+    autoRenew: subscription.metadata.auto_renew === "true",
+    renewalReminderSentAt: subscription.metadata.renewal_reminder_sent_at || null,
+    metadata: toStringMetadata(subscription.metadata),
+  });
+};
+
+/**
+ * Updates the local copy of a subscription from a Stripe subscription object, e.g. one received in a webhook.
+ * Subscriptions that weren't created by the subscription route (no plan metadata) are ignored.
+ */
+export const syncSubscription = async (subscription: Stripe.Subscription): Promise<SubscriptionRecord | null> => {
+  const existing = await store.subscriptions.get(subscription.id);
+  const durationYears = Number(subscription.metadata.duration_years) as SubscriptionDurationYears;
+  const billingCadence = subscription.metadata.billing_cadence as SubscriptionBillingCadence;
+
+  const hasPlanMetadata = [1, 2, 3].includes(durationYears) && ["monthly", "annual"].includes(billingCadence);
+
+  if (!existing && !hasPlanMetadata) {
+    return null;
+  }
+
+  const { planItem, feeItem } = getSubscriptionItems(subscription);
+
+  return recordSubscription(subscription, {
+    priceId: planItem?.price.id ?? existing!.priceId,
+    feePriceId: feeItem?.price.id ?? null,
+    durationYears: hasPlanMetadata ? durationYears : existing!.durationYears,
+    billingCadence: hasPlanMetadata ? billingCadence : existing!.billingCadence,
+  });
+};
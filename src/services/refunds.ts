@@ -0,0 +1,139 @@
+import Stripe from "stripe";
+import { noRequestOptions, stripe } from "../lib/stripe";
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import { ValidationError } from "../lib/errors";
+import { CREDIT_CARD_FEE_PRODUCT_ID } from "../config";
+import { store } from "../store";
+import { recordInvoice } from "./records";
+
+export type InvoiceAdjustmentRejectionReason =
+  | "not_finalized"
+  | "not_paid"
+  | "no_credit_card_fee"
+  | "amount_required"
+  | "not_voidable";
+
+/**
+ * An invoice that can't be credited, refunded or voided as requested. The message is meant for staff.
+ */
+export class InvoiceAdjustmentError extends ValidationError {
+  constructor(code: InvoiceAdjustmentRejectionReason, message: string) {
+    super(code, message);
+    this.name = "InvoiceAdjustmentError";
+  }
+}
+
+/**
+ * What a credit note covers: the whole invoice, only its credit card fee line, or a custom amount.
+ */
+export type CreditNoteScope = "full" | "credit_card_fee" | "amount";
+
+export interface CreditNoteOptions {
+  scope: CreditNoteScope;
+  /** Amount to credit in the smallest currency unit; required for the `amount` scope. */
+  amount?: number;
+  /** Refunds the credited amount to the payment method. Otherwise it is added to the customer's credit balance. */
+  refund: boolean;
+  reason?: Stripe.CreditNoteCreateParams.Reason;
+  memo?: string;
+}
+
+const isCreditCardFeeLine = (line: Stripe.InvoiceLineItem): boolean => {
+  const product = line.price?.product;
+  return (typeof product === "string" ? product : product?.id) === CREDIT_CARD_FEE_PRODUCT_ID;
+};
+
+const getCreditNoteLines = async (
+  invoice: Stripe.Invoice,
+  options: CreditNoteOptions,
+): Promise<Stripe.CreditNoteCreateParams.Line[]> => {
+  if (options.scope === "amount") {
+    if (!options.amount) {
+      throw new InvoiceAdjustmentError("amount_required", "An amount is required to credit part of an invoice.");
+    }
+    return [
+      {
+        type: "custom_line_item",
+        description: options.memo ?? "Partial credit",
+        quantity: 1,
+        unit_amount: options.amount,
+      },
+    ];
+  }
+
+  const lines = await stripe.invoices.listLineItems(invoice.id, { limit: 100 });
+  const credited = options.scope === "credit_card_fee" ? lines.data.filter(isCreditCardFeeLine) : lines.data;
+  if (credited.length === 0) {
+    throw new InvoiceAdjustmentError("no_credit_card_fee", `Invoice ${invoice.id} has no credit card fee.`);
+  }
+  return credited.map((line) => ({
+    type: "invoice_line_item",
+    invoice_line_item: line.id,
+    quantity: line.quantity ?? 1,
+  }));
+};
+
+/**
+ * Issues a credit note for a finalized invoice. Credit notes on open invoices reduce the amount due; on paid
+ * invoices the credited amount is refunded or, without `refund`, added to the customer's credit balance.
+ */
+export const issueCreditNote = async (
+  invoice: Stripe.Invoice,
+  options: CreditNoteOptions,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<Stripe.CreditNote> => {
+  if (invoice.status !== "open" && invoice.status !== "paid") {
+    throw new InvoiceAdjustmentError(
+      "not_finalized",
+      `Invoice ${invoice.id} is ${invoice.status} and can't be credited.`,
+    );
+  }
+  if (options.refund && invoice.status !== "paid") {
+    throw new InvoiceAdjustmentError(
+      "not_paid",
+      `Invoice ${invoice.id} hasn't been paid, so there is nothing to refund.`,
+    );
+  }
+
+  const params: Stripe.CreditNoteCreateParams = {
+    invoice: invoice.id,
+    lines: await getCreditNoteLines(invoice, options),
+    reason: options.reason,
+    memo: options.memo,
+  };
+  if (invoice.status === "paid") {
+    // The credited total, tax included, has to be allocated to a refund or the customer's balance
+    const preview = await stripe.creditNotes.preview(params);
+    if (options.refund) {
+      params.refund_amount = preview.total;
+    } else {
+      params.credit_amount = preview.total;
+    }
+  }
+
+  const creditNote = await stripe.creditNotes.create(params, requestOptions("credit_note.create"));
+  await recordInvoice(await stripe.invoices.retrieve(invoice.id));
+  return creditNote;
+};
+
+/**
+ * Voids an open invoice, or deletes a draft one, which also cancels a charge scheduled for the desired start date.
+ * Returns the voided invoice, or null when a draft was deleted.
+ */
+export const voidInvoice = async (
+  invoice: Stripe.Invoice,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<Stripe.Invoice | null> => {
+  if (invoice.status === "draft") {
+    await stripe.invoices.del(invoice.id, undefined, requestOptions("invoice.delete"));
+    await store.invoices.delete(invoice.id);
+    return null;
+  }
+  if (invoice.status !== "open") {
+    throw new InvoiceAdjustmentError("not_voidable", `Invoice ${invoice.id} is ${invoice.status} and can't be voided.`);
+  }
+
+  const voided = await stripe.invoices.voidInvoice(invoice.id, undefined, requestOptions("invoice.void"));
+  await recordInvoice(voided);
+  return voided;
+};
@@ -0,0 +1,43 @@
+import { env } from "../config";
+import { logger } from "../lib/logger";
+import { store } from "../store";
+import { addDays } from "../utils/dates";
+import { schedulePeriodicTask } from "../utils/scheduler";
+
+// A retention of 0 days keeps records forever
+const isOlderThan = (createdAt: string, retentionDays: number, now: Date): boolean =>
+  retentionDays > 0 && new Date(createdAt) < addDays(now, -retentionDays);
+
+/**
+ * Deletes webhook events, audit log entries and coupon redemptions past their retention, and expired login
+ * codes. Redemptions of active coupons are kept, as they count towards the coupons' redemption limits.
+ */
+export const pruneStoredRecords = async (now = new Date()): Promise<void> => {
+  const webhookEvents = await store.webhookEvents.deleteMany((event) =>
+    isOlderThan(event.createdAt, env.webhookEventRetentionDays, now),
+  );
+  const auditLog = await store.auditLog.deleteMany((entry) =>
+    isOlderThan(entry.createdAt, env.auditLogRetentionDays, now),
+  );
+
+  const coupons = await store.coupons.list();
+  const activeCouponIds = new Set(
+    coupons
+      .filter((coupon) => coupon.active && (!coupon.expiresAt || new Date(coupon.expiresAt) > now))
+      .map((coupon) => coupon.id),
+  );
+  const couponRedemptions = await store.couponRedemptions.deleteMany(
+    (redemption) =>
+      !activeCouponIds.has(redemption.couponId) &&
+      isOlderThan(redemption.createdAt, env.couponRedemptionRetentionDays, now),
+  );
+
+  const loginCodes = await store.loginCodes.deleteMany((code) => new Date(code.expiresAt) <= now);
+
+  if (webhookEvents + auditLog + couponRedemptions + loginCodes > 0) {
+    logger.info("store.pruned", { webhookEvents, auditLog, couponRedemptions, loginCodes });
+  }
+};
+
+export const startRecordPruner = (): (() => void) =>
+  schedulePeriodicTask("prune old records", env.recordPruneIntervalMinutes, () => pruneStoredRecords());
@@ -0,0 +1,91 @@
+import Stripe from "stripe";
+import { noRequestOptions, stripe } from "../lib/stripe";
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import { getDeclineMessage } from "../lib/errors";
+import { logger } from "../lib/logger";
+import { reconcileCreditCardFees } from "./feeReconciliation";
+import { getSetupVerification } from "./paymentMethods";
+import { retrievePaymentMethod, setDefaultPaymentMethod } from "./stripeHelpers";
+
+/** Metadata flag of setup intents whose payment method becomes the customer's default once they succeed. */
+export const SET_AS_DEFAULT_METADATA_KEY = "set_as_default";
+
+const getSetupIntentCustomerId = (setupIntent: Stripe.SetupIntent): string | null => {
+  if (!setupIntent.customer) {
+    return null;
+  }
+  return typeof setupIntent.customer === "string" ? setupIntent.customer : setupIntent.customer.id;
+};
+
+const getSetupIntentPaymentMethodId = (setupIntent: Stripe.SetupIntent): string | null => {
+  if (!setupIntent.payment_method) {
+    return null;
+  }
+  return typeof setupIntent.payment_method === "string" ? setupIntent.payment_method : setupIntent.payment_method.id;
+};
+
+/**
+ * Retrieves a setup intent, returning null when it doesn't exist or belongs to another customer.
+ */
+export const retrieveCustomerSetupIntent = async (
+  setupIntentId: string,
+  customerId: string,
+): Promise<Stripe.SetupIntent | null> => {
+  try {
+    const setupIntent = await stripe.setupIntents.retrieve(setupIntentId);
+    return getSetupIntentCustomerId(setupIntent) === customerId ? setupIntent : null;
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === "resource_missing") {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Declines get the same customer-facing wording as declined payments
+const getSetupErrorMessage = (error: Stripe.SetupIntent.LastSetupError | null): string | null => {
+  if (!error) {
+    return null;
+  }
+  return error.type === "card_error" ? getDeclineMessage(error.decline_code ?? error.code) : (error.message ?? null);
+};
+
+export const serializeSetupIntent = (setupIntent: Stripe.SetupIntent) => ({
+  setupIntentId: setupIntent.id,
+  customerId: getSetupIntentCustomerId(setupIntent),
+  paymentMethodId: getSetupIntentPaymentMethodId(setupIntent),
+  status: setupIntent.status,
+  verification: getSetupVerification(setupIntent),
+  // Why the last confirmation failed, e.g. a declined card, meant to be shown to the customer
+  error: getSetupErrorMessage(setupIntent.last_setup_error),
+});
+
+/**
+ * Makes the payment method collected by a succeeded setup intent the customer's default, and re-prices the
+ * credit card fee of the customer's subscriptions for it. Only setup intents created by the setup intent
+ * route are applied; payment methods added elsewhere, e.g. in the customer portal, are left alone.
+ */
+export const applySucceededSetupIntent = async (
+  setupIntent: Stripe.SetupIntent,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<void> => {
+  const customerId = getSetupIntentCustomerId(setupIntent);
+  const paymentMethodId = getSetupIntentPaymentMethodId(setupIntent);
+  if (
+    setupIntent.status !== "succeeded" ||
+    setupIntent.metadata?.[SET_AS_DEFAULT_METADATA_KEY] !== "true" ||
+    !customerId ||
+    !paymentMethodId
+  ) {
+    return;
+  }
+
+  const paymentMethod = await retrievePaymentMethod(paymentMethodId);
+  await setDefaultPaymentMethod(customerId, paymentMethod, requestOptions);
+  await reconcileCreditCardFees(customerId, requestOptions);
+  logger.info("setup_intent.default_payment_method_set", {
+    setupIntentId: setupIntent.id,
+    customerId,
+    paymentMethodId,
+  });
+};
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ResolvedCartItem } from "./catalog";
+import { ShippingRateError, findShippingRate, quoteShipping } from "./shipping";
+
+const items = (quantity: number) => [{ quantity, product: { weightGrams: 500 } }] as ResolvedCartItem[];
+
+describe("findShippingRate", () => {
+  it("picks the most specific zone: postal code, then state, then country", () => {
+    assert.equal(
+      findShippingRate("standard", "usd", { country: "US", state: "NY", postalCode: "10001" })?.id,
+      "nyc_standard",
+    );
+    assert.equal(
+      findShippingRate("standard", "usd", { country: "US", state: "HI", postalCode: "96813" })?.id,
+      "us_ak_hi_standard",
+    );
+    assert.equal(
+      findShippingRate("standard", "usd", { country: "US", state: "TX", postalCode: "73301" })?.id,
+      "us_standard",
+    );
+  });
+
+  it("skips rates outside the zone or without an amount in the currency", () => {
+    assert.equal(findShippingRate("standard", "usd", { country: "CA", state: "ON" }), null);
+    assert.equal(findShippingRate("standard", "cad", { country: "US", state: "TX" }), null);
+  });
+});
+
+describe("quoteShipping", () => {
+  it("charges the matched rate once per package", () => {
+    const quote = quoteShipping({
+      currency: "usd",
+      address: { country: "US", state: "TX" },
+      items: items(3),
+      subtotal: 5000,
+    });
+
+    assert.equal(quote.rateId, "us_standard");
+    assert.equal(quote.amount, 3000);
+    assert.equal(quote.freeShipping, false);
+  });
+
+  it("ships free once the subtotal reaches the rate's threshold", () => {
+    const quote = quoteShipping({ currency: "usd", address: { country: "US", state: "TX" }, subtotal: 20000 });
+
+    assert.equal(quote.amount, 0);
+    assert.equal(quote.freeShipping, true);
+  });
+
+  it("falls back to the flat cost for standard shipping outside every zone", () => {
+    const quote = quoteShipping({ currency: "usd", address: { country: "CA", state: "ON" }, subtotal: 5000 });
+
+    assert.equal(quote.rateId, "flat");
+    assert.equal(quote.amount, 1500);
+  });
+
+  it("rejects other service levels outside their zones", () => {
+    assert.equal(
+      quoteShipping({ currency: "usd", address: { country: "US" }, serviceLevel: "expedited", subtotal: 5000 }).amount,
+      2500,
+    );
+    assert.throws(
+      () => quoteShipping({ currency: "usd", address: { country: "CA" }, serviceLevel: "expedited", subtotal: 5000 }),
+      (error) => error instanceof ShippingRateError && error.code === "service_level_unavailable",
+    );
+  });
+});
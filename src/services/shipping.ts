@@ -0,0 +1,178 @@
+import Stripe from "stripe";
+import {
+  SHIPPING_LINE_ITEM_DESCRIPTION,
+  SHIPPING_PRODUCT_ID,
+  SHIPPING_RATES,
+  SHIPPING_UNITS_PER_PACKAGE,
+  SHIPPING_WEIGHT_TIERS,
+  getShippingCostCents,
+} from "../config";
+import type { ShippingRateConfig, ShippingServiceLevel } from "../config";
+import { ConfigurationError, ValidationError } from "../lib/errors";
+import type { ResolvedCartItem } from "./catalog";
+import type { SurchargeAddress } from "./surchargePolicy";
+
+/**
+ * The requested service level isn't offered for the destination. The message is meant to be shown at checkout.
+ */
+export class ShippingRateError extends ValidationError {
+  constructor(message: string) {
+    super("service_level_unavailable", message);
+    this.name = "ShippingRateError";
+  }
+}
+
+export interface ShippingAddress extends SurchargeAddress {
+  postalCode?: string | null;
+}
+
+export interface ShippingQuote {
+  /** Configured rate, or `flat` for the flat `SHIPPING_COST` when no standard rate matches. */
+  rateId: string;
+  serviceLevel: ShippingServiceLevel;
+  displayName: string;
+  amount: number;
+  freeShipping: boolean;
+  deliveryDays: { min: number; max: number } | null;
+}
+
+const normalizePostalCode = (postalCode: string): string => postalCode.replace(/\s+/g, "").toUpperCase();
+
+/**
+ * How specifically a rate's zone matches the address: by postal code, state, country, or everywhere.
+ * Returns -1 when the address is outside the zone.
+ */
+const getZoneMatch = (rate: ShippingRateConfig, address?: ShippingAddress | null): number => {
+  const country = address?.country?.toUpperCase();
+  const state = address?.state?.toUpperCase();
+  const postalCode = address?.postalCode ? normalizePostalCode(address.postalCode) : null;
+
+  if (rate.countries?.length && !rate.countries.some((code) => code.toUpperCase() === country)) {
+    return -1;
+  }
+  if (rate.states?.length && !rate.states.some((code) => code.toUpperCase() === state)) {
+    return -1;
+  }
+  if (
+    rate.postalCodePrefixes?.length &&
+    !rate.postalCodePrefixes.some((prefix) => postalCode?.startsWith(normalizePostalCode(prefix)))
+  ) {
+    return -1;
+  }
+
+  if (rate.postalCodePrefixes?.length) {
+    return 3;
+  }
+  if (rate.states?.length) {
+    return 2;
+  }
+  return rate.countries?.length ? 1 : 0;
+};
+
+/**
+ * The most specific configured rate for the service level and destination. Rates that can't be charged
+ * in the currency are skipped.
+ */
+export const findShippingRate = (
+  serviceLevel: ShippingServiceLevel,
+  currency: string,
+  address?: ShippingAddress | null,
+): ShippingRateConfig | null => {
+  let match: ShippingRateConfig | null = null;
+  let matchScore = -1;
+  for (const rate of SHIPPING_RATES) {
+    if (rate.serviceLevel !== serviceLevel || rate.amounts[currency] === undefined) {
+      continue;
+    }
+    const score = getZoneMatch(rate, address);
+    if (score > matchScore) {
+      match = rate;
+      matchScore = score;
+    }
+  }
+  return match;
+};
+
+const getTotalWeight = (items: ResolvedCartItem[]): number =>
+  items.reduce((total, item) => total + item.product.weightGrams * item.quantity, 0);
+
+const getTotalQuantity = (items: ResolvedCartItem[]): number => items.reduce((total, item) => total + item.quantity, 0);
+
+/**
+ * Number of times the rate is charged for the order's weight: the multiplier of the lightest tier
+ * the order fits in. Orders heavier than every tier ship as several packages of the heaviest tier.
+ */
+const getWeightMultiplier = (weightGrams: number): number => {
+  const tier = SHIPPING_WEIGHT_TIERS.find((entry) => weightGrams <= entry.maxGrams);
+  if (tier) {
+    return tier.multiplier;
+  }
+  const heaviest = SHIPPING_WEIGHT_TIERS[SHIPPING_WEIGHT_TIERS.length - 1];
+  return Math.ceil(weightGrams / heaviest.maxGrams) * heaviest.multiplier;
+};
+
+/**
+ * Scales a rate by the order's contents. With `SHIPPING_WEIGHT_TIERS` the rate is scaled by the order's
+ * weight tier; otherwise it is charged once per package of `SHIPPING_UNITS_PER_PACKAGE` units.
+ */
+const scaleForContents = (amount: number, items: ResolvedCartItem[]): number => {
+  if (SHIPPING_WEIGHT_TIERS.length > 0) {
+    return Math.round(amount * getWeightMultiplier(getTotalWeight(items)));
+  }
+  return amount * Math.ceil(getTotalQuantity(items) / SHIPPING_UNITS_PER_PACKAGE);
+};
+
+/**
+ * Prices shipping to the destination at the requested service level, in the smallest unit of `currency`.
+ * Standard shipping falls back to the flat shipping cost when no configured rate matches; other service
+ * levels throw a `ShippingRateError`. Shipping is free once `subtotal` reaches the rate's threshold.
+ * Without `items` (e.g. the first subscription invoice) the rate is charged once.
+ */
+export const quoteShipping = (options: {
+  currency: string;
+  address?: ShippingAddress | null;
+  serviceLevel?: ShippingServiceLevel;
+  items?: ResolvedCartItem[];
+  subtotal: number;
+}): ShippingQuote => {
+  const serviceLevel = options.serviceLevel ?? "standard";
+  const rate = findShippingRate(serviceLevel, options.currency, options.address);
+  if (!rate && serviceLevel !== "standard") {
+    throw new ShippingRateError(`The ${serviceLevel} shipping service is not available for this address.`);
+  }
+
+  const rateAmount = rate ? rate.amounts[options.currency] : getShippingCostCents(options.currency);
+  const threshold = rate?.freeShippingThresholds?.[options.currency];
+  const freeShipping = threshold !== undefined && options.subtotal >= threshold;
+  const amount = options.items ? scaleForContents(rateAmount, options.items) : rateAmount;
+
+  return {
+    rateId: rate?.id ?? "flat",
+    serviceLevel,
+    displayName:
+      rate?.displayName ?? (serviceLevel === "standard" ? SHIPPING_LINE_ITEM_DESCRIPTION : "Expedited shipping"),
+    amount: freeShipping ? 0 : amount,
+    freeShipping,
+    deliveryDays: rate?.deliveryDays ?? null,
+  };
+};
+
+export const getShippingMetadata = (shipping: ShippingQuote): Stripe.MetadataParam => ({
+  shipping_rate_id: shipping.rateId,
+  shipping_service_level: shipping.serviceLevel,
+  shipping_free: String(shipping.freeShipping),
+  shipping_delivery_days: shipping.deliveryDays ? `${shipping.deliveryDays.min}-${shipping.deliveryDays.max}` : "",
+});
+
+/**
+ * Inline price for a subscription's shipping, billed once under `SHIPPING_PRODUCT_ID`.
+ */
+export const getSubscriptionShippingPriceData = (
+  amount: number,
+  currency: string,
+): { currency: string; product: string; unit_amount: number } => {
+  if (!SHIPPING_PRODUCT_ID) {
+    throw new ConfigurationError("SHIPPING_PRODUCT_ID is required to charge shipping on subscriptions.");
+  }
+  return { currency, product: SHIPPING_PRODUCT_ID, unit_amount: amount };
+};
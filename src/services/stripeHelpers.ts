@@ -1,7 +1,9 @@
 import Stripe from "stripe";
-import { stripe } from "../lib/stripe";
+import { noRequestOptions, stripe } from "../lib/stripe";
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import { NotFoundError, ValidationError } from "../lib/errors";
 import { inferTimezoneFromAddress } from "../utils/timezone";
-import { getCouponIdForCode, CREDIT_CARD_FEE_PRODUCT_ID, BASE_CURRENCY, CREDIT_CARD_FEE_PERCENT } from "../config";
+import { CREDIT_CARD_FEE_PRODUCT_ID } from "../config";
 
 export interface ClinicMetadata {
   clinicName: string;
@@ -12,24 +14,35 @@ export interface ClinicMetadata {
   termsAcceptedAt: string;
 }
 
-const couponCache = new Map<string, Stripe.Coupon>();
+const couponCache = new Map<string, { coupon: Stripe.Coupon; expiresAt: number }>();
 
 export const retrievePaymentMethod = async (paymentMethodId: string): Promise<Stripe.PaymentMethod> => {
   return stripe.paymentMethods.retrieve(paymentMethodId);
 };
 
-export const isCreditFunding = (paymentMethod: Stripe.PaymentMethod): boolean => {
-  if (paymentMethod.type !== "card") {
-    return false;
+/**
+ * Retrieves a payment method the caller gave us, throwing a `NotFoundError` when it doesn't exist.
+ */
+export const retrieveRequestedPaymentMethod = async (paymentMethodId: string): Promise<Stripe.PaymentMethod> => {
+  try {
+    return await retrievePaymentMethod(paymentMethodId);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === "resource_missing") {
+      throw new NotFoundError("payment_method_not_found", "Payment method not found.", { param: "paymentMethodId" });
+    }
+    throw error;
   }
-  const funding = paymentMethod.card?.funding ?? "unknown";
-  return funding === "credit" || funding === "unknown";
 };
 
+/**
+ * Finds the customer with the given email, or creates one. The clinic's billing and shipping addresses
+ * are kept up to date on existing customers, so later orders and Stripe Tax use the latest addresses.
+ */
 export const getOrCreateCustomer = async (
   email: string,
   clinicMetadata: ClinicMetadata,
-  shipping?: Stripe.CustomerCreateParams.Shipping
+  addresses: { address?: Stripe.AddressParam; shipping?: Stripe.CustomerCreateParams.Shipping } = {},
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions
 ): Promise<Stripe.Customer> => {
   const existing = await stripe.customers.list({ email, limit: 1 });
   const metadata: Stripe.MetadataParam = {
@@ -43,89 +56,123 @@ export const getOrCreateCustomer = async (
 
   if (existing.data.length > 0) {
     const [customer] = existing.data;
-    await stripe.customers.update(customer.id, {
-      name: clinicMetadata.clinicName,
-      metadata: {
-        ...customer.metadata,
-        ...metadata,
+    return stripe.customers.update(
+      customer.id,
+      {
+        name: clinicMetadata.clinicName,
+        address: addresses.address,
+        shipping: addresses.shipping,
+        metadata: {
+          ...customer.metadata,
+          ...metadata,
+        },
       },
-    });
-    return customer;
+      requestOptions("customer.update")
+    );
   }
 
-  return stripe.customers.create({
-    email,
-    name: clinicMetadata.clinicName,
-    metadata,
-    // NOTE: Depends on whether purchases are often shipped to the same address,
-    // it may be useful to store the shipping address in the customer object.
-    // Could remove this if not needed, as it provided for each payment/subscription separately as well.
-    shipping: shipping,
-  });
+  return stripe.customers.create(
+    {
+      email,
+      name: clinicMetadata.clinicName,
+      metadata,
+      address: addresses.address,
+      shipping: addresses.shipping,
+    },
+    requestOptions("customer.create")
+  );
+};
+
+/**
+ * The ID of the Stripe customer with the given email, or null when there is none yet.
+ */
+export const findCustomerIdByEmail = async (email: string): Promise<string | null> => {
+  const customers = await stripe.customers.list({ email, limit: 1 });
+  return customers.data[0]?.id ?? null;
 };
 
 export const findCustomerByEmail = async (email: string): Promise<Stripe.Customer> => {
   const customers = await stripe.customers.list({ email, limit: 1 });
   if (customers.data.length === 0) {
-    throw new Error(`Customer with email ${email} not found. Please set up your account first.`);
+    throw new NotFoundError(
+      "customer_not_found",
+      `Customer with email ${email} not found. Please set up your account first.`
+    );
   }
   return customers.data[0];
 };
 
-export const ensureDefaultPaymentMethodSet = async (
-  customerId: string,
-  paymentMethod: Stripe.PaymentMethod
-): Promise<void> => {
-  if (paymentMethod.customer === customerId) {
-    return;
-  }
-  if (paymentMethod.customer && paymentMethod.customer !== customerId) {
-    await stripe.paymentMethods.detach(paymentMethod.id);
+export const getDefaultPaymentMethodId = (customer: Stripe.Customer): string | null => {
+  const defaultPaymentMethod = customer.invoice_settings.default_payment_method;
+  if (!defaultPaymentMethod) {
+    return null;
   }
-  await stripe.paymentMethods.attach(paymentMethod.id, { customer: customerId });
-  await stripe.customers.update(customerId, {
-    invoice_settings: {
-      default_payment_method: paymentMethod.id,
-    },
-  });
+  return typeof defaultPaymentMethod === "string" ? defaultPaymentMethod : defaultPaymentMethod.id;
 };
 
-export interface CouponDetails {
-  couponId: string;
-  percentOff?: number | null;
-  amountOff?: number | null;
-  currency?: string | null;
-}
-
-export const findCouponDetails = async (couponCode?: string | null): Promise<CouponDetails | null> => {
-  if (!couponCode) {
+export const getPaymentMethodCustomerId = (paymentMethod: Stripe.PaymentMethod): string | null => {
+  if (!paymentMethod.customer) {
     return null;
   }
+  return typeof paymentMethod.customer === "string" ? paymentMethod.customer : paymentMethod.customer.id;
+};
 
-  const couponId = getCouponIdForCode(couponCode);
-  if (!couponId) {
-    return null;
+/**
+ * Makes a payment method the customer's default for invoices and subscriptions. The payment method must
+ * already be attached to the customer, which confirming a setup intent does; payment methods are never
+ * moved over from another customer.
+ */
+export const setDefaultPaymentMethod = async (
+  customerId: string,
+  paymentMethod: Stripe.PaymentMethod,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions
+): Promise<Stripe.Customer> => {
+  if (getPaymentMethodCustomerId(paymentMethod) !== customerId) {
+    throw new ValidationError(
+      "payment_method_not_attached",
+      `Payment method ${paymentMethod.id} is not attached to customer ${customerId}.`
+    );
   }
+  return stripe.customers.update(
+    customerId,
+    {
+      invoice_settings: {
+        default_payment_method: paymentMethod.id,
+      },
+    },
+    requestOptions("customer.default_payment_method")
+  );
+};
 
-  if (couponCache.has(couponId)) {
-    const cached = couponCache.get(couponId)!;
-    return {
-      couponId,
-      percentOff: cached.percent_off,
-      amountOff: cached.amount_off,
-      currency: cached.currency,
-    };
-  }
+const getPriceProductId = (price: Stripe.Price): string =>
+  typeof price.product === "string" ? price.product : price.product.id;
 
-  const coupon = await stripe.coupons.retrieve(couponId);
-  couponCache.set(couponId, coupon);
+/**
+ * Splits a subscription's items into the plan item and the companion credit card fee item, if any.
+ */
+export const getSubscriptionItems = (
+  subscription: Stripe.Subscription
+): { planItem?: Stripe.SubscriptionItem; feeItem?: Stripe.SubscriptionItem } => {
+  const feeItem = subscription.items.data.find((item) => getPriceProductId(item.price) === CREDIT_CARD_FEE_PRODUCT_ID);
+  const planItem = subscription.items.data.find((item) => item !== feeItem);
+  return { planItem, feeItem };
+};
 
-  return {
-    couponId,
-    percentOff: coupon.percent_off,
-    amountOff: coupon.amount_off,
-    currency: coupon.currency,
-  };
+const COUPON_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Retrieves a Stripe coupon with its `currency_options`. Coupons are cached for a few minutes,
+ * so changes made in the Stripe dashboard are picked up without a restart.
+ */
+export const retrieveCoupon = async (couponId: string): Promise<Stripe.Coupon> => {
+  const cached = couponCache.get(couponId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.coupon;
+  }
+
+  const coupon = await stripe.coupons.retrieve(couponId, { expand: ["currency_options"] });
+  couponCache.set(couponId, { coupon, expiresAt: Date.now() + COUPON_CACHE_TTL_MS });
+  return coupon;
 };
 
 export interface ClinicAddress {
@@ -137,6 +184,15 @@ export interface ClinicAddress {
   country: string;
 }
 
+export const toStripeAddress = (address: ClinicAddress): Stripe.AddressParam => ({
+  line1: address.line1,
+  line2: address.line2,
+  city: address.city,
+  state: address.state,
+  postal_code: address.postalCode,
+  country: address.country,
+});
+
 export const buildClinicMetadata = (
   clinicName: string,
   address: ClinicAddress,
@@ -144,6 +200,7 @@ export const buildClinicMetadata = (
     buyingGroupMember: boolean;
     buyingGroupName?: string | null;
     desiredStartDate?: string | null;
+    termsAcceptedAt?: Date;
   }
 ): ClinicMetadata => {
   const timezone = inferTimezoneFromAddress({
@@ -158,21 +215,24 @@ export const buildClinicMetadata = (
     buyingGroupMember: options.buyingGroupMember,
     buyingGroupName: options.buyingGroupName,
     desiredStartDate: options.desiredStartDate,
-    termsAcceptedAt: new Date().toISOString(),
+    termsAcceptedAt: (options.termsAcceptedAt ?? new Date()).toISOString(),
   };
 };
 
 /**
- * Gets or creates a credit card fee price for the given amount and recurring interval.
- * Checks if a price with the same amount already exists for the credit card fee product
- * before creating a new one.
+ * Gets or creates a credit card fee price for the given amount, currency and recurring interval.
+ * Checks if a price with the same amount and fee percent already exists for the credit card fee product
+ * before creating a new one. `feePercent` is the percent the surcharge policy applied.
  */
 export const getOrCreateCreditCardFeePrice = async (
   feeAmountCents: number,
+  feePercent: number,
+  currency: string,
   recurring: {
     interval: Stripe.Price.Recurring.Interval;
     intervalCount?: number;
-  }
+  },
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions
 ): Promise<string> => {
   if (feeAmountCents <= 0) {
     throw new Error("Fee amount must be greater than 0");
@@ -187,12 +247,15 @@ export const getOrCreateCreditCardFeePrice = async (
 
   // Check if a price with the same amount and recurring interval already exists
   const matchingPrice = existingPrices.data.find((price) => {
-    if (price.currency !== BASE_CURRENCY) {
+    if (price.currency !== currency) {
       return false;
     }
     if (price.unit_amount !== feeAmountCents) {
       return false;
     }
+    if (price.metadata.fee_percent !== feePercent.toString()) {
+      return false;
+    }
     if (!price.recurring) {
       return false;
     }
@@ -210,28 +273,56 @@ export const getOrCreateCreditCardFeePrice = async (
   }
 
   // Create a new price if no matching price exists
-  const newPrice = await stripe.prices.create({
-    currency: BASE_CURRENCY,
-    unit_amount: feeAmountCents,
-    recurring: {
-      interval: recurring.interval,
-      interval_count: recurring.intervalCount ?? 1,
-    },
-    product: CREDIT_CARD_FEE_PRODUCT_ID,
-    metadata: {
-      fee_percent: CREDIT_CARD_FEE_PERCENT.toString(),
+  const newPrice = await stripe.prices.create(
+    {
+      currency,
+      unit_amount: feeAmountCents,
+      recurring: {
+        interval: recurring.interval,
+        interval_count: recurring.intervalCount ?? 1,
+      },
+      product: CREDIT_CARD_FEE_PRODUCT_ID,
+      metadata: {
+        fee_percent: feePercent.toString(),
+      },
     },
-  });
+    requestOptions("fee_price.create")
+  );
 
   return newPrice.id;
 };
 
 /**
- * Gets or creates a one-time credit card fee price for the given amount.
- * Checks if a price with the same amount already exists for the credit card fee product
- * before creating a new one.
+ * Inline recurring credit card fee price, for previews that must not create prices.
  */
-export const getOrCreateOneTimeCreditCardFeePrice = async (feeAmountCents: number): Promise<string> => {
+export const getCreditCardFeePriceData = (
+  feeAmountCents: number,
+  currency: string,
+  recurring: {
+    interval: Stripe.Price.Recurring.Interval;
+    intervalCount?: number;
+  }
+): Stripe.SubscriptionUpdateParams.Item.PriceData => ({
+  currency,
+  product: CREDIT_CARD_FEE_PRODUCT_ID,
+  unit_amount: feeAmountCents,
+  recurring: {
+    interval: recurring.interval,
+    interval_count: recurring.intervalCount ?? 1,
+  },
+});
+
+/**
+ * Gets or creates a one-time credit card fee price for the given amount and currency.
+ * Checks if a price with the same amount and fee percent already exists for the credit card fee product
+ * before creating a new one. `feePercent` is the percent the surcharge policy applied.
+ */
+export const getOrCreateOneTimeCreditCardFeePrice = async (
+  feeAmountCents: number,
+  feePercent: number,
+  currency: string,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions
+): Promise<string> => {
   if (feeAmountCents <= 0) {
     throw new Error("Fee amount must be greater than 0");
   }
@@ -241,17 +332,20 @@ export const getOrCreateOneTimeCreditCardFeePrice = async (feeAmountCents: numbe
     product: CREDIT_CARD_FEE_PRODUCT_ID,
     active: true,
     limit: 100,
-    currency: BASE_CURRENCY,
+    currency,
   });
 
   // Check if a one-time price with the same amount already exists
   const matchingPrice = existingPrices.data.find((price) => {
-    if (price.currency !== BASE_CURRENCY) {
+    if (price.currency !== currency) {
       return false;
     }
     if (price.unit_amount !== feeAmountCents) {
       return false;
     }
+    if (price.metadata.fee_percent !== feePercent.toString()) {
+      return false;
+    }
     // Must be a one-time price (not recurring)
     if (price.recurring) {
       return false;
@@ -264,14 +358,17 @@ export const getOrCreateOneTimeCreditCardFeePrice = async (feeAmountCents: numbe
   }
 
   // Create a new one-time price if no matching price exists
-  const newPrice = await stripe.prices.create({
-    currency: BASE_CURRENCY,
-    unit_amount: feeAmountCents,
-    product: CREDIT_CARD_FEE_PRODUCT_ID,
-    metadata: {
-      fee_percent: CREDIT_CARD_FEE_PERCENT.toString(),
+  const newPrice = await stripe.prices.create(
+    {
+      currency,
+      unit_amount: feeAmountCents,
+      product: CREDIT_CARD_FEE_PRODUCT_ID,
+      metadata: {
+        fee_percent: feePercent.toString(),
+      },
     },
-  });
+    requestOptions("fee_price.create")
+  );
 
   return newPrice.id;
 };
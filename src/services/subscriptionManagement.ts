@@ -0,0 +1,306 @@
+import Stripe from "stripe";
+import { noRequestOptions, stripe } from "../lib/stripe";
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import { ValidationError } from "../lib/errors";
+import { logger } from "../lib/logger";
+import { getBuyingGroupForClinic } from "../config";
+import type { SubscriptionBillingCadence, SubscriptionDurationYears } from "../config";
+import type { SubscriptionRecord } from "../store";
+import { addYears, fromUnixTimestamp, toUnixTimestamp } from "../utils/dates";
+import { resolveCoupon } from "./coupons";
+import { getPriceUnitAmount, getSubscriptionItemPriceParams, quoteSubscription } from "./quotes";
+import { getCustomerAddresses, syncSubscription } from "./records";
+import {
+  getCreditCardFeePriceData,
+  getDefaultPaymentMethodId,
+  getOrCreateCreditCardFeePrice,
+  getSubscriptionItems,
+  retrievePaymentMethod,
+} from "./stripeHelpers";
+
+export interface SubscriptionPlanSelection {
+  durationYears: SubscriptionDurationYears;
+  billingCadence: SubscriptionBillingCadence;
+}
+
+export interface PlanChange {
+  items: Stripe.SubscriptionUpdateParams.Item[];
+  /** Only the credit card fee item changes in `items`, for updates that keep the plan item's price. */
+  feeItems: Stripe.SubscriptionUpdateParams.Item[];
+  metadata: Stripe.MetadataParam;
+  cancelAt?: number;
+  planAmount: number;
+  creditCardFeeAmount: number;
+  /** Null for subscriptions paid by invoice. */
+  paymentMethod: Stripe.PaymentMethod | null;
+}
+
+/**
+ * Retrieves a subscription, or null when it doesn't exist.
+ */
+export const retrieveSubscription = async (subscriptionId: string): Promise<Stripe.Subscription | null> => {
+  try {
+    return await stripe.subscriptions.retrieve(subscriptionId);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === "resource_missing") {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Retrieves a subscription, or null when it doesn't exist or belongs to another customer.
+ */
+export const retrieveCustomerSubscription = async (
+  subscriptionId: string,
+  customerId: string,
+): Promise<Stripe.Subscription | null> => {
+  const subscription = await retrieveSubscription(subscriptionId);
+  if (!subscription) {
+    return null;
+  }
+  const ownerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id;
+  return ownerId === customerId ? subscription : null;
+};
+
+export const serializeSubscription = (subscription: Stripe.Subscription) => {
+  const { planItem, feeItem } = getSubscriptionItems(subscription);
+  return {
+    subscriptionId: subscription.id,
+    status: subscription.status,
+    durationYears: Number(subscription.metadata.duration_years) || null,
+    billingCadence: subscription.metadata.billing_cadence || null,
+    priceId: planItem?.price.id ?? null,
+    planAmount: planItem ? getPriceUnitAmount(planItem.price, subscription.currency) : null,
+    creditCardFeeAmount: feeItem?.price.unit_amount ?? 0,
+    currency: subscription.currency,
+    interval: planItem?.price.recurring?.interval ?? null,
+    intervalCount: planItem?.price.recurring?.interval_count ?? null,
+    currentPeriodEnd: fromUnixTimestamp(subscription.current_period_end).toISOString(),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    cancelAt: subscription.cancel_at ? fromUnixTimestamp(subscription.cancel_at).toISOString() : null,
+    termEndsAt: subscription.metadata.term_ends_at || null,
+    autoRenew: subscription.metadata.auto_renew === "true",
+  };
+};
+
+export const retrieveSubscriptionPaymentMethod = async (
+  subscription: Stripe.Subscription,
+): Promise<Stripe.PaymentMethod> => {
+  let paymentMethodId =
+    typeof subscription.default_payment_method === "string"
+      ? subscription.default_payment_method
+      : subscription.default_payment_method?.id;
+
+  if (!paymentMethodId) {
+    const customerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id;
+    const customer = await stripe.customers.retrieve(customerId);
+    if (!customer.deleted) {
+      paymentMethodId = getDefaultPaymentMethodId(customer as Stripe.Customer);
+    }
+  }
+
+  if (!paymentMethodId) {
+    throw new ValidationError(
+      "payment_method_required",
+      `Subscription ${subscription.id} has no payment method. Please set up your payment method first.`,
+    );
+  }
+  return retrievePaymentMethod(paymentMethodId);
+};
+
+/**
+ * Works out the item changes for switching a subscription to another plan. The credit card fee item is
+ * re-priced for the new plan amount and interval, added when the new plan needs one, and removed otherwise.
+ * The fee is based on the subscription's payment method unless another one is given. Previews price the fee
+ * inline instead of finding or creating a Stripe price.
+ */
+export const buildPlanChange = async (
+  subscription: Stripe.Subscription,
+  selection: SubscriptionPlanSelection,
+  requestOptions: StripeRequestOptionsFactory,
+  {
+    paymentMethod: paymentMethodOverride,
+    preview = false,
+  }: { paymentMethod?: Stripe.PaymentMethod; preview?: boolean } = {},
+): Promise<PlanChange> => {
+  const { planItem, feeItem } = getSubscriptionItems(subscription);
+  if (!planItem) {
+    throw new Error(`Subscription ${subscription.id} has no plan item.`);
+  }
+
+  // Subscriptions paid by invoice have no payment method and no credit card fee
+  const paymentMethod =
+    subscription.collection_method === "send_invoice"
+      ? null
+      : (paymentMethodOverride ?? (await retrieveSubscriptionPaymentMethod(subscription)));
+  const customerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id;
+  const addresses = await getCustomerAddresses(customerId);
+  const quote = await quoteSubscription({
+    durationYears: selection.durationYears,
+    billingCadence: selection.billingCadence,
+    coupon: await resolveCoupon(subscription.metadata.coupon_code),
+    paymentMethod,
+    address: addresses.shipping,
+    billingAddress: addresses.billing,
+    // A subscription keeps the currency it was created in
+    currency: subscription.currency,
+    buyingGroup: getBuyingGroupForClinic(
+      subscription.metadata.buying_group_member === "true",
+      subscription.metadata.buying_group_name,
+    ),
+  });
+  const price = quote.price;
+  const creditCardFeeAmount = quote.breakdown.creditCardFeeAmount;
+
+  const feeItems: Stripe.SubscriptionUpdateParams.Item[] = [];
+  if (creditCardFeeAmount > 0) {
+    const recurring = {
+      interval: price.recurring!.interval,
+      intervalCount: price.recurring!.interval_count ?? 1,
+    };
+    const feePrice: Pick<Stripe.SubscriptionUpdateParams.Item, "price" | "price_data"> = preview
+      ? { price_data: getCreditCardFeePriceData(creditCardFeeAmount, quote.currency, recurring) }
+      : {
+          price: await getOrCreateCreditCardFeePrice(
+            creditCardFeeAmount,
+            quote.surcharge.percent,
+            quote.currency,
+            recurring,
+            requestOptions,
+          ),
+        };
+    feeItems.push(feeItem ? { id: feeItem.id, ...feePrice } : feePrice);
+  } else if (feeItem) {
+    feeItems.push({ id: feeItem.id, deleted: true });
+  }
+
+  const metadata: Stripe.MetadataParam = {
+    duration_years: selection.durationYears.toString(),
+    billing_cadence: selection.billingCadence,
+    coupon_discount_amount_cents: quote.breakdown.discountAmount.toString(),
+    credit_card_fee_cents: creditCardFeeAmount.toString(),
+    fee_percent_applied: quote.surcharge.percent.toString(),
+    surcharge_rule: quote.surcharge.ruleId,
+    surcharge_reason: quote.surcharge.reason,
+  };
+
+  // The term keeps its start date and is lengthened or shortened to the new duration
+  let cancelAt: number | undefined;
+  const currentTermEndsAt = subscription.metadata.term_ends_at;
+  const currentDurationYears = Number(subscription.metadata.duration_years);
+  if (currentTermEndsAt && currentDurationYears && currentDurationYears !== selection.durationYears) {
+    const termStartsAt = addYears(new Date(currentTermEndsAt), -currentDurationYears);
+    const termEndsAt = addYears(termStartsAt, selection.durationYears);
+    if (termEndsAt.getTime() <= Date.now()) {
+      throw new ValidationError(
+        "term_already_ended",
+        `A ${selection.durationYears}-year term would have ended on ${termEndsAt.toISOString()}. Please choose a longer duration.`,
+      );
+    }
+    metadata.term_ends_at = termEndsAt.toISOString();
+    metadata.renewal_reminder_sent_at = "";
+    if (subscription.metadata.auto_renew !== "true") {
+      cancelAt = toUnixTimestamp(termEndsAt);
+    }
+  }
+
+  return {
+    items: [{ id: planItem.id, ...getSubscriptionItemPriceParams(quote) }, ...feeItems],
+    feeItems,
+    metadata,
+    cancelAt,
+    planAmount: quote.breakdown.baseAmount,
+    creditCardFeeAmount,
+    paymentMethod,
+  };
+};
+
+/**
+ * Previews the invoice that follows a plan switch, including prorations. Pass the returned
+ * `prorationDate` to `changeSubscriptionPlan` so the applied change matches the preview.
+ */
+export const previewSubscriptionPlanChange = async (
+  subscription: Stripe.Subscription,
+  selection: SubscriptionPlanSelection,
+  prorationDate = toUnixTimestamp(new Date()),
+) => {
+  const change = await buildPlanChange(subscription, selection, noRequestOptions, { preview: true });
+  const upcoming = await stripe.invoices.retrieveUpcoming({
+    customer: typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id,
+    subscription: subscription.id,
+    subscription_details: {
+      items: change.items,
+      proration_behavior: "create_prorations",
+      proration_date: prorationDate,
+      cancel_at: change.cancelAt,
+    },
+  });
+
+  const prorationAmount = upcoming.lines.data
+    .filter((line) => line.proration)
+    .reduce((total, line) => total + line.amount, 0);
+
+  return {
+    planAmount: change.planAmount,
+    creditCardFeeAmount: change.creditCardFeeAmount,
+    prorationAmount,
+    amountDue: upcoming.amount_due,
+    currency: upcoming.currency,
+    nextPaymentAttempt: upcoming.next_payment_attempt
+      ? fromUnixTimestamp(upcoming.next_payment_attempt).toISOString()
+      : null,
+    prorationDate,
+  };
+};
+
+export const changeSubscriptionPlan = async (
+  subscription: Stripe.Subscription,
+  selection: SubscriptionPlanSelection,
+  prorationDate = toUnixTimestamp(new Date()),
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<Stripe.Subscription> => {
+  const change = await buildPlanChange(subscription, selection, requestOptions);
+  const updated = await stripe.subscriptions.update(
+    subscription.id,
+    {
+      items: change.items,
+      proration_behavior: "create_prorations",
+      proration_date: prorationDate,
+      cancel_at: change.cancelAt,
+      metadata: change.metadata,
+    },
+    requestOptions("subscription.update"),
+  );
+  await syncSubscription(updated);
+  logger.info("subscription.plan_changed", {
+    subscriptionId: subscription.id,
+    durationYears: selection.durationYears,
+    billingCadence: selection.billingCadence,
+  });
+  return updated;
+};
+
+/**
+ * Cancels a subscription right away, or at the end of the current billing period.
+ */
+export const cancelSubscription = async (
+  subscription: Stripe.Subscription,
+  atPeriodEnd: boolean,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<{ subscription: Stripe.Subscription; record: SubscriptionRecord | null }> => {
+  const updated = atPeriodEnd
+    ? await stripe.subscriptions.update(
+        subscription.id,
+        {
+          cancel_at_period_end: true,
+          metadata: { auto_renew: "false" },
+        },
+        requestOptions("subscription.cancel_at_period_end"),
+      )
+    : await stripe.subscriptions.cancel(subscription.id, undefined, requestOptions("subscription.cancel"));
+  const record = await syncSubscription(updated);
+  logger.info("subscription.canceled", { subscriptionId: subscription.id, atPeriodEnd, status: updated.status });
+  return { subscription: updated, record };
+};
@@ -0,0 +1,146 @@
+import Stripe from "stripe";
+import { stripe } from "../lib/stripe";
+import { logger } from "../lib/logger";
+import { ValidationError } from "../lib/errors";
+import { RENEWAL_REMINDER_DAYS, TRIAL_PERIOD_DAYS, env } from "../config";
+import type { SubscriptionDurationYears } from "../config";
+import { store } from "../store";
+import type { SubscriptionRecord } from "../store";
+import { addDays, addYears, toUnixTimestamp } from "../utils/dates";
+import { schedulePeriodicTask } from "../utils/scheduler";
+import { startOfDayInTimezone } from "../utils/timezone";
+import { syncSubscription } from "./records";
+
+const RENEWABLE_STATUSES = new Set(["trialing", "active", "past_due"]);
+
+export interface SubscriptionTerm {
+  billingStartsAt: Date;
+  termEndsAt: Date;
+}
+
+/**
+ * Billing starts at midnight of the desired start date in the clinic's timezone,
+ * or after the default trial period when the clinic didn't ask for a start date.
+ * A desired start date that has already begun in the clinic's timezone starts billing now.
+ */
+export const getBillingStartDate = (
+  desiredStartDate: string | null | undefined,
+  clinicTimezone: string,
+  now = new Date(),
+): Date => {
+  if (!desiredStartDate) {
+    return addDays(now, TRIAL_PERIOD_DAYS);
+  }
+  const desiredStart = startOfDayInTimezone(desiredStartDate, clinicTimezone);
+  return desiredStart > now ? desiredStart : now;
+};
+
+/**
+ * A fixed-term contract starts billing when the trial ends and lasts `durationYears` from then.
+ */
+export const computeSubscriptionTerm = (
+  billingStartsAt: Date,
+  durationYears: SubscriptionDurationYears,
+): SubscriptionTerm => ({
+  billingStartsAt,
+  termEndsAt: addYears(billingStartsAt, durationYears),
+});
+
+/**
+ * Subscription create params that stop billing at the end of the term unless the clinic opted in to auto-renewal.
+ */
+export const buildTermParams = (
+  term: SubscriptionTerm,
+  autoRenew: boolean,
+): Pick<Stripe.SubscriptionCreateParams, "trial_end" | "cancel_at" | "proration_behavior"> & {
+  metadata: Stripe.MetadataParam;
+} => ({
+  trial_end: term.billingStartsAt.getTime() > Date.now() ? toUnixTimestamp(term.billingStartsAt) : "now",
+  cancel_at: autoRenew ? undefined : toUnixTimestamp(term.termEndsAt),
+  // The term ends on a billing period boundary, so nothing needs to be prorated
+  proration_behavior: "none",
+  metadata: {
+    term_ends_at: term.termEndsAt.toISOString(),
+    auto_renew: String(autoRenew),
+  },
+});
+
+/**
+ * Switches auto-renewal on or off. Turning it off schedules the cancellation at the end of the current term.
+ */
+export const setAutoRenew = async (
+  subscription: Stripe.Subscription,
+  autoRenew: boolean,
+): Promise<SubscriptionRecord | null> => {
+  const termEndsAt = subscription.metadata.term_ends_at;
+  if (!termEndsAt) {
+    throw new ValidationError("not_fixed_term", `Subscription ${subscription.id} is not a fixed-term subscription.`);
+  }
+
+  const updated = await stripe.subscriptions.update(subscription.id, {
+    cancel_at: autoRenew ? "" : toUnixTimestamp(new Date(termEndsAt)),
+    proration_behavior: "none",
+    metadata: {
+      auto_renew: String(autoRenew),
+    },
+  });
+  logger.info("subscription.auto_renew_updated", { subscriptionId: subscription.id, autoRenew });
+
+  return syncSubscription(updated);
+};
+
+const sendRenewalReminder = async (record: SubscriptionRecord, now: Date): Promise<void> => {
+  const updated = await stripe.subscriptions.update(record.id, {
+    metadata: {
+      renewal_reminder_sent_at: now.toISOString(),
+    },
+  });
+  await syncSubscription(updated);
+  logger.info("subscription.renewal_reminder_sent", { subscriptionId: record.id, termEndsAt: record.termEndsAt });
+};
+
+const startNextTerm = async (record: SubscriptionRecord): Promise<void> => {
+  const nextTermEndsAt = addYears(new Date(record.termEndsAt!), record.durationYears);
+  const updated = await stripe.subscriptions.update(record.id, {
+    metadata: {
+      term_ends_at: nextTermEndsAt.toISOString(),
+      renewal_reminder_sent_at: "",
+    },
+  });
+  await syncSubscription(updated);
+  logger.info("subscription.renewed", { subscriptionId: record.id, termEndsAt: nextTermEndsAt.toISOString() });
+};
+
+/**
+ * Sends a renewal reminder once per term, `RENEWAL_REMINDER_DAYS` before it ends, and rolls
+ * auto-renewing subscriptions over into their next term once the current one has ended.
+ * The reminder is recorded in the subscription metadata, so it also reaches Stripe as a
+ * `customer.subscription.updated` event that email automations can act on.
+ */
+export const processSubscriptionRenewals = async (now = new Date()): Promise<void> => {
+  const reminderCutoff = addDays(now, RENEWAL_REMINDER_DAYS);
+  const subscriptions = await store.subscriptions.find(
+    (record) => Boolean(record.termEndsAt) && RENEWABLE_STATUSES.has(record.status),
+  );
+
+  for (const record of subscriptions) {
+    const termEndsAt = new Date(record.termEndsAt!);
+    try {
+      if (record.autoRenew && termEndsAt <= now) {
+        await startNextTerm(record);
+      } else if (termEndsAt > now && termEndsAt <= reminderCutoff && !record.renewalReminderSentAt) {
+        await sendRenewalReminder(record, now);
+      }
+    } catch (error) {
+      logger.error("subscription.renewal_failed", { subscriptionId: record.id, error });
+    }
+  }
+};
+
+/**
+ * Checks subscription terms periodically. Returns a function that stops the checks.
+ */
+export const startRenewalScheduler = (): (() => void) =>
+  schedulePeriodicTask("process subscription renewals", env.renewalCheckIntervalMinutes, () =>
+    processSubscriptionRenewals(),
+  );
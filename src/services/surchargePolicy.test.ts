@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type Stripe from "stripe";
+import { evaluateSurcharge } from "./surchargePolicy";
+
+const card = (funding: string, brand = "visa") =>
+  ({ id: "pm_test", object: "payment_method", type: "card", card: { funding, brand } }) as Stripe.PaymentMethod;
+
+describe("evaluateSurcharge", () => {
+  it("applies the configured fee to credit cards, capped at 3% in the US", () => {
+    assert.deepEqual(evaluateSurcharge(card("credit"), { country: "US", state: "TX" }), {
+      applies: true,
+      percent: 3,
+      ruleId: "us_default",
+      reason: "applied",
+    });
+    assert.equal(evaluateSurcharge(card("credit"), { country: "CA" }).percent, 2.4);
+  });
+
+  it("caps the fee at the merchant cost where the state requires it", () => {
+    const decision = evaluateSurcharge(card("credit"), { country: "US", state: "NY" });
+    assert.equal(decision.percent, 2.5);
+    assert.equal(decision.ruleId, "us_ny_cost");
+
+    assert.equal(evaluateSurcharge(card("credit"), { country: "US", state: "CO" }).percent, 2);
+  });
+
+  it("never surcharges where surcharging is prohibited", () => {
+    for (const address of [{ country: "US", state: "CT" }, { country: "GB" }, { country: "DE" }]) {
+      const decision = evaluateSurcharge(card("credit"), address);
+      assert.equal(decision.applies, false);
+      assert.equal(decision.reason, "prohibited_region");
+    }
+  });
+
+  it("exempts debit and prepaid cards, other payment methods and orders paid by invoice", () => {
+    const address = { country: "US", state: "TX" };
+    assert.equal(evaluateSurcharge(card("debit"), address).reason, "exempt_funding");
+    assert.equal(evaluateSurcharge(card("prepaid"), address).reason, "exempt_funding");
+    assert.equal(
+      evaluateSurcharge({ id: "pm_test", type: "us_bank_account" } as Stripe.PaymentMethod, address).reason,
+      "not_card",
+    );
+    assert.equal(evaluateSurcharge(null, address).reason, "send_invoice");
+  });
+});
@@ -0,0 +1,78 @@
+import Stripe from "stripe";
+import {
+  CREDIT_CARD_FEE_PERCENT,
+  SURCHARGE_EXCLUDED_BRANDS,
+  SURCHARGE_EXEMPT_FUNDING,
+  SURCHARGE_MERCHANT_COST_PERCENT,
+  SURCHARGE_UNKNOWN_FUNDING,
+  getSurchargeRule,
+} from "../config";
+
+export interface SurchargeAddress {
+  country: string;
+  state?: string | null;
+}
+
+export interface SurchargeDecision {
+  applies: boolean;
+  percent: number;
+  /** Region rule the decision was based on, e.g. `us_default` or `us_ct_prohibited`. */
+  ruleId: string;
+  /** Why no surcharge applies, or `applied`. */
+  reason: "applied" | "send_invoice" | "not_card" | "exempt_funding" | "unknown_funding" | "excluded_brand" | "prohibited_region";
+}
+
+/**
+ * Decides whether a card payment may carry the credit card fee and at what percentage,
+ * from the clinic's address and the card's funding type and brand.
+ * Without an address only the card-level rules are applied. Orders paid by invoice (net terms) have no
+ * payment method and never carry the fee.
+ */
+export const evaluateSurcharge = (
+  paymentMethod: Stripe.PaymentMethod | null,
+  address?: SurchargeAddress | null,
+): SurchargeDecision => {
+  const rule = getSurchargeRule(address?.country, address?.state);
+  const noSurcharge = (reason: SurchargeDecision["reason"]): SurchargeDecision => ({
+    applies: false,
+    percent: 0,
+    ruleId: rule.id,
+    reason,
+  });
+
+  if (!paymentMethod) {
+    return noSurcharge("send_invoice");
+  }
+  if (paymentMethod.type !== "card" || !paymentMethod.card) {
+    return noSurcharge("not_card");
+  }
+
+  const funding = paymentMethod.card.funding ?? "unknown";
+  if (SURCHARGE_EXEMPT_FUNDING.has(funding)) {
+    return noSurcharge("exempt_funding");
+  }
+  if (funding === "unknown" && SURCHARGE_UNKNOWN_FUNDING === "exempt") {
+    return noSurcharge("unknown_funding");
+  }
+  if (SURCHARGE_EXCLUDED_BRANDS.has(paymentMethod.card.brand.toLowerCase())) {
+    return noSurcharge("excluded_brand");
+  }
+  if (rule.prohibited) {
+    return noSurcharge("prohibited_region");
+  }
+
+  let percent = CREDIT_CARD_FEE_PERCENT;
+  if (rule.maxPercent !== undefined) {
+    percent = Math.min(percent, rule.maxPercent);
+  }
+  if (rule.capAtMerchantCost && SURCHARGE_MERCHANT_COST_PERCENT !== undefined) {
+    percent = Math.min(percent, SURCHARGE_MERCHANT_COST_PERCENT);
+  }
+
+  return {
+    applies: percent > 0,
+    percent,
+    ruleId: rule.id,
+    reason: "applied",
+  };
+};
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { stripe } from "../lib/stripe";
+import { calculateTax, getStripeTaxSettings } from "./tax";
+
+const order = { currency: "usd", productAmount: 10000, shippingAmount: 1000 };
+
+describe("calculateTax", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("applies the local rate to the product and shipping, rounding each line", async () => {
+    const tax = await calculateTax({ ...order, address: { country: "US", state: "CA" }, mode: "rates" });
+
+    assert.equal(tax.amount, 725 + 73);
+    assert.equal(tax.rate?.region, "US-CA");
+  });
+
+  it("prefers the state rate and falls back to the country rate", async () => {
+    const ontario = await calculateTax({ ...order, address: { country: "CA", state: "ON" }, mode: "rates" });
+    assert.equal(ontario.rate?.percent, 13);
+
+    const britishColumbia = await calculateTax({ ...order, address: { country: "CA", state: "BC" }, mode: "rates" });
+    assert.equal(britishColumbia.rate?.region, "CA");
+    assert.equal(britishColumbia.amount, 500 + 50);
+  });
+
+  it("charges no tax where no rate is configured, or when tax is off", async () => {
+    const texas = await calculateTax({ ...order, address: { country: "US", state: "TX" }, mode: "rates" });
+    assert.deepEqual(texas, { mode: "rates", amount: 0, rate: null });
+
+    const none = await calculateTax({ ...order, address: { country: "US", state: "CA" }, mode: "none" });
+    assert.deepEqual(none, { mode: "none", amount: 0, rate: null });
+  });
+
+  it("asks Stripe Tax in automatic mode, which needs an address", async () => {
+    const create = mock.method(stripe.tax.calculations, "create", async () => ({ tax_amount_exclusive: 840 }));
+
+    const tax = await calculateTax({ ...order, address: { country: "US", state: "WA" }, mode: "automatic" });
+    assert.deepEqual(tax, { mode: "automatic", amount: 840, rate: null });
+    assert.equal(create.mock.callCount(), 1);
+
+    await assert.rejects(calculateTax({ ...order, address: null, mode: "automatic" }), { code: "address_required" });
+  });
+});
+
+describe("getStripeTaxSettings", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("enables Stripe Tax in automatic mode", async () => {
+    assert.deepEqual(await getStripeTaxSettings({ mode: "automatic", amount: 840, rate: null }), {
+      automaticTax: { enabled: true },
+      taxRates: [],
+    });
+  });
+
+  it("attaches the existing Stripe tax rate for the local rate", async () => {
+    mock.method(stripe.taxRates, "list", async () => ({
+      data: [{ id: "txr_test_ca", percentage: 7.25, metadata: { tax_region: "US-CA" } }],
+    }));
+    const create = mock.method(stripe.taxRates, "create", async () => ({ id: "txr_test_new" }));
+
+    const settings = await getStripeTaxSettings({
+      mode: "rates",
+      amount: 798,
+      rate: { region: "US-CA", country: "US", state: "CA", percent: 7.25 },
+    });
+    assert.deepEqual(settings, { automaticTax: { enabled: false }, taxRates: ["txr_test_ca"] });
+    assert.equal(create.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,133 @@
+import Stripe from "stripe";
+import { noRequestOptions, stripe } from "../lib/stripe";
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import { ValidationError } from "../lib/errors";
+import { TAX_MODE, getTaxRateConfig } from "../config";
+import type { TaxMode, TaxRateConfig } from "../config";
+import { percentageToAmount } from "../utils/amounts";
+import type { SurchargeAddress } from "./surchargePolicy";
+
+export interface TaxAddress extends SurchargeAddress {
+  line1?: string | null;
+  line2?: string | null;
+  city?: string | null;
+  postalCode?: string | null;
+}
+
+export interface TaxCalculation {
+  mode: TaxMode;
+  amount: number;
+  /** Local rate the tax was calculated with, when `TAX_MODE` is `rates`. */
+  rate: TaxRateConfig | null;
+}
+
+export interface StripeTaxSettings {
+  automaticTax: { enabled: boolean };
+  /** Tax rates for the taxable line items (product and shipping). */
+  taxRates: string[];
+}
+
+/**
+ * Calculates the tax on the discounted product amount and shipping. The credit card fee is not taxed.
+ * With local rates the tax is rounded per line item, the same way Stripe rounds invoice line taxes.
+ */
+export const calculateTax = async (options: {
+  currency: string;
+  address?: TaxAddress | null;
+  productAmount: number;
+  shippingAmount: number;
+  /** Defaults to `TAX_MODE`. */
+  mode?: TaxMode;
+}): Promise<TaxCalculation> => {
+  const mode = options.mode ?? TAX_MODE;
+  if (mode === "rates") {
+    const rate = getTaxRateConfig(options.address?.country, options.address?.state);
+    const amount = rate
+      ? percentageToAmount(options.productAmount, rate.percent) +
+        percentageToAmount(options.shippingAmount, rate.percent)
+      : 0;
+    return { mode, amount, rate };
+  }
+
+  if (mode === "automatic") {
+    if (!options.address) {
+      throw new ValidationError("address_required", "A clinic address is required to calculate tax.");
+    }
+    const calculation = await stripe.tax.calculations.create({
+      currency: options.currency,
+      customer_details: {
+        address: {
+          line1: options.address.line1 ?? undefined,
+          line2: options.address.line2 ?? undefined,
+          city: options.address.city ?? undefined,
+          state: options.address.state ?? undefined,
+          postal_code: options.address.postalCode ?? undefined,
+          country: options.address.country,
+        },
+        address_source: "shipping",
+      },
+      line_items: [{ amount: options.productAmount, reference: "product" }],
+      shipping_cost: { amount: options.shippingAmount },
+    });
+    return { mode, amount: calculation.tax_amount_exclusive, rate: null };
+  }
+
+  return { mode, amount: 0, rate: null };
+};
+
+/**
+ * Gets or creates the Stripe tax rate for a configured local rate. Rates are matched on their
+ * region and percentage, so changing a configured percentage creates a new Stripe tax rate.
+ */
+export const getOrCreateStripeTaxRate = async (
+  rate: TaxRateConfig,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<string> => {
+  const existingRates = await stripe.taxRates.list({ active: true, inclusive: false, limit: 100 });
+  const matchingRate = existingRates.data.find(
+    (taxRate) => taxRate.metadata.tax_region === rate.region && taxRate.percentage === rate.percent,
+  );
+  if (matchingRate) {
+    return matchingRate.id;
+  }
+
+  const taxRate = await stripe.taxRates.create(
+    {
+      display_name: "Sales tax",
+      percentage: rate.percent,
+      inclusive: false,
+      country: rate.country,
+      state: rate.state,
+      jurisdiction: rate.region,
+      metadata: {
+        tax_region: rate.region,
+      },
+    },
+    requestOptions("tax_rate.create"),
+  );
+  return taxRate.id;
+};
+
+/**
+ * Turns a tax calculation into invoice and subscription settings: Stripe Tax is enabled in `automatic`
+ * mode, and the local tax rate is attached to the taxable line items in `rates` mode.
+ */
+export const getStripeTaxSettings = async (
+  tax: TaxCalculation,
+  requestOptions: StripeRequestOptionsFactory = noRequestOptions,
+): Promise<StripeTaxSettings> => {
+  if (tax.mode === "automatic") {
+    return { automaticTax: { enabled: true }, taxRates: [] };
+  }
+  if (tax.mode === "rates" && tax.rate) {
+    return { automaticTax: { enabled: false }, taxRates: [await getOrCreateStripeTaxRate(tax.rate, requestOptions)] };
+  }
+  return { automaticTax: { enabled: false }, taxRates: [] };
+};
+
+export const getTaxMetadata = (tax: TaxCalculation): Stripe.MetadataParam => ({
+  tax_mode: tax.mode,
+  tax_amount_cents: tax.amount.toString(),
+  tax_region: tax.rate?.region ?? "",
+  tax_percent: tax.rate?.percent.toString() ?? "",
+});
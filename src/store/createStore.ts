@@ -0,0 +1,125 @@
+import type { CollectionName, NewRecord, Repository, Store, StoredRecord } from "./types";
+
+export type StoreData = Record<CollectionName, Record<string, StoredRecord>>;
+
+export interface StoreBackend {
+  load(): Promise<Partial<StoreData> | null>;
+  save(data: StoreData): Promise<void>;
+}
+
+const COLLECTIONS: CollectionName[] = [
+  "customers",
+  "invoices",
+  "subscriptions",
+  "idempotencyKeys",
+  "webhookEvents",
+  "coupons",
+  "couponRedemptions",
+  "loginCodes",
+  "auditLog",
+];
+
+const createEmptyData = (): StoreData =>
+  COLLECTIONS.reduce((acc, name) => {
+    acc[name] = {};
+    return acc;
+  }, {} as StoreData);
+
+/**
+ * Builds a store on top of a backend that loads and saves the whole data set.
+ * Data is loaded lazily on first access and kept in memory. Saves go through the backend one at a time;
+ * mutations made while a save is waiting to start are written together by that save.
+ */
+export const createStore = (backend: StoreBackend): Store => {
+  let dataPromise: Promise<StoreData> | null = null;
+  let saveQueue: Promise<void> = Promise.resolve();
+  let pendingSave: Promise<void> | null = null;
+
+  const getData = (): Promise<StoreData> => {
+    if (!dataPromise) {
+      dataPromise = backend.load().then((loaded) => ({ ...createEmptyData(), ...(loaded ?? {}) }));
+    }
+    return dataPromise;
+  };
+
+  const persist = (data: StoreData): Promise<void> => {
+    if (!pendingSave) {
+      pendingSave = saveQueue
+        .catch(() => undefined)
+        .then(() => {
+          // Later mutations need a save of their own, queued behind this one
+          pendingSave = null;
+          return backend.save(structuredClone(data));
+        });
+      saveQueue = pendingSave;
+    }
+    return pendingSave;
+  };
+
+  const createRepository = <T extends StoredRecord>(name: CollectionName): Repository<T> => {
+    const records = async (): Promise<Record<string, T>> => (await getData())[name] as Record<string, T>;
+
+    const find = async (predicate: (record: T) => boolean): Promise<T[]> =>
+      Object.values(await records())
+        .filter(predicate)
+        .map((record) => structuredClone(record));
+
+    return {
+      get: async (id) => {
+        const record = (await records())[id];
+        return record ? structuredClone(record) : null;
+      },
+      find,
+      findOne: async (predicate) => (await find(predicate))[0] ?? null,
+      list: () => find(() => true),
+      upsert: async (record: NewRecord<T>) => {
+        const data = await getData();
+        const collection = data[name] as Record<string, T>;
+        const now = new Date().toISOString();
+        const existing = collection[record.id];
+        const next = {
+          ...existing,
+          ...record,
+          createdAt: existing?.createdAt ?? record.createdAt ?? now,
+          updatedAt: now,
+        } as T;
+        collection[record.id] = next;
+        await persist(data);
+        return structuredClone(next);
+      },
+      delete: async (id) => {
+        const data = await getData();
+        if (!data[name][id]) {
+          return;
+        }
+        delete data[name][id];
+        await persist(data);
+      },
+      deleteMany: async (predicate) => {
+        const data = await getData();
+        const collection = data[name] as Record<string, T>;
+        const ids = Object.keys(collection).filter((id) => predicate(collection[id]));
+        if (ids.length === 0) {
+          return 0;
+        }
+        for (const id of ids) {
+          delete collection[id];
+        }
+        await persist(data);
+        return ids.length;
+      },
+    };
+  };
+
+  return {
+    customers: createRepository("customers"),
+    invoices: createRepository("invoices"),
+    subscriptions: createRepository("subscriptions"),
+    idempotencyKeys: createRepository("idempotencyKeys"),
+    webhookEvents: createRepository("webhookEvents"),
+    coupons: createRepository("coupons"),
+    couponRedemptions: createRepository("couponRedemptions"),
+    loginCodes: createRepository("loginCodes"),
+    auditLog: createRepository("auditLog"),
+  };
+};
@@ -0,0 +1,33 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createStore } from "./createStore";
+import type { StoreData } from "./createStore";
+import type { Store } from "./types";
+
+/**
+ * Store persisted as a single JSON file. Writes go to a temporary file that is then
+ * renamed over the original, so a crash mid-write never leaves a truncated file behind.
+ */
+export const createFileStore = (filePath: string): Store => {
+  const resolvedPath = path.resolve(filePath);
+
+  return createStore({
+    load: async () => {
+      try {
+        const contents = await fs.readFile(resolvedPath, "utf8");
+        return JSON.parse(contents) as Partial<StoreData>;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+    save: async (data) => {
+      await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+      const tempPath = `${resolvedPath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+      await fs.rename(tempPath, resolvedPath);
+    },
+  });
+};
@@ -0,0 +1,12 @@
+import { env } from "../config";
+import { createFileStore } from "./fileStore";
+import { createMemoryStore } from "./memoryStore";
+import type { Store } from "./types";
+
+export * from "./types";
+export { createStore } from "./createStore";
+export type { StoreBackend, StoreData } from "./createStore";
+export { createFileStore } from "./fileStore";
+export { createMemoryStore } from "./memoryStore";
+
+export const store: Store = env.dataStore === "memory" ? createMemoryStore() : createFileStore(env.dataStorePath);
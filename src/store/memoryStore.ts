@@ -0,0 +1,11 @@
+import { createStore } from "./createStore";
+import type { Store } from "./types";
+
+/**
+ * Store that only lives in process memory. Useful for local development and tests.
+ */
+export const createMemoryStore = (): Store =>
+  createStore({
+    load: async () => null,
+    save: async () => undefined,
+  });
@@ -0,0 +1,189 @@
+import type { PlanType, SubscriptionBillingCadence, SubscriptionDurationYears } from "../config";
+
+export interface StoredRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClinicAddressRecord {
+  line1?: string;
+  line2?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface ClinicRecord {
+  name: string;
+  timezone: string;
+  address?: ClinicAddressRecord;
+  /** Address the clinic is billed at, when it differs from the clinic address, e.g. for centralized billing. */
+  billingAddress?: ClinicAddressRecord;
+  /** Address orders are shipped to, when it differs from the clinic address. */
+  shippingAddress?: ClinicAddressRecord;
+  buyingGroupMember: boolean;
+  buyingGroupName?: string | null;
+  desiredStartDate?: string | null;
+  termsAcceptedAt?: string | null;
+}
+
+/**
+ * Local copy of a Stripe customer. `id` is the Stripe customer ID.
+ */
+export interface CustomerRecord extends StoredRecord {
+  email: string;
+  clinic: ClinicRecord;
+  defaultPaymentMethodId: string | null;
+  cardFunding?: string | null;
+}
+
+/**
+ * Local copy of an invoice created by the one-time payment route. `id` is the Stripe invoice ID.
+ */
+export interface InvoiceRecord extends StoredRecord {
+  customerId: string;
+  subscriptionId?: string | null;
+  planType: PlanType;
+  status: string;
+  totalAmount: number;
+  currency: string;
+  paymentIntentId?: string | null;
+  paymentMethodId?: string | null;
+  /** Set for draft invoices that are charged later, on the clinic's desired start date. */
+  scheduledChargeAt?: string | null;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Local copy of a subscription. `id` is the Stripe subscription ID.
+ */
+export interface SubscriptionRecord extends StoredRecord {
+  customerId: string;
+  status: string;
+  priceId: string;
+  feePriceId?: string | null;
+  durationYears: SubscriptionDurationYears;
+  billingCadence: SubscriptionBillingCadence;
+  currency: string;
+  termEndsAt?: string | null;
+  autoRenew?: boolean;
+  renewalReminderSentAt?: string | null;
+  metadata: Record<string, string>;
+}
+
+export type IdempotencyRecordState = "in_progress" | "completed" | "failed";
+
+/**
+ * First response returned for an `Idempotency-Key`. `id` is the key scoped to the caller, method and path.
+ * `firstAttemptAt` is kept when an attempt fails, so a retry sends Stripe the same timestamps.
+ */
+export interface IdempotencyRecord extends StoredRecord {
+  key: string;
+  requestHash: string;
+  state: IdempotencyRecordState;
+  firstAttemptAt: string;
+  responseStatus?: number;
+  responseBody?: unknown;
+  expiresAt: string;
+}
+
+export type WebhookEventStatus = "processed" | "failed";
+
+/**
+ * Stripe webhook event seen by the webhook route. `id` is the Stripe event ID.
+ */
+export interface WebhookEventRecord extends StoredRecord {
+  type: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError?: string | null;
+  processedAt?: string | null;
+}
+
+/**
+ * Coupon code managed by admins. `id` is the code in lower case; `code` keeps the casing shown to customers.
+ * Restrictions that are null or empty don't apply.
+ */
+export interface CouponRecord extends StoredRecord {
+  code: string;
+  stripeCouponId: string;
+  /** Stripe promotion code applied instead of the bare coupon, so Stripe enforces the same limits. */
+  stripePromotionCodeId?: string | null;
+  active: boolean;
+  expiresAt?: string | null;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerCustomer?: number | null;
+  planTypes?: PlanType[] | null;
+  durationYears?: SubscriptionDurationYears[] | null;
+  billingCadences?: SubscriptionBillingCadence[] | null;
+  firstOrderOnly?: boolean;
+  buyingGroupOnly?: boolean;
+  /** Buying groups a buying-group-only coupon is limited to; any group when empty. */
+  buyingGroupNames?: string[] | null;
+}
+
+/**
+ * Use of a coupon on an order. `id` is the coupon ID and the invoice or subscription ID, joined by a colon.
+ */
+export interface CouponRedemptionRecord extends StoredRecord {
+  couponId: string;
+  customerId: string;
+  planType: PlanType;
+  invoiceId?: string | null;
+  subscriptionId?: string | null;
+}
+
+/**
+ * One-time sign-in code sent to an email address. `id` is the email in lower case; only the latest code is kept.
+ */
+export interface LoginCodeRecord extends StoredRecord {
+  codeHash: string;
+  expiresAt: string;
+  attempts: number;
+}
+
+export type AuditOutcome = "succeeded" | "failed";
+
+/**
+ * Action taken through the admin API. `id` is a random UUID; entries are never updated.
+ */
+export interface AuditLogRecord extends StoredRecord {
+  /** Name of the admin API key used. */
+  actor: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  details: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: string | null;
+}
+
+export type NewRecord<T extends StoredRecord> = Omit<T, "createdAt" | "updatedAt"> & Partial<StoredRecord>;
+
+export interface Repository<T extends StoredRecord> {
+  get(id: string): Promise<T | null>;
+  find(predicate: (record: T) => boolean): Promise<T[]>;
+  findOne(predicate: (record: T) => boolean): Promise<T | null>;
+  list(): Promise<T[]>;
+  /** Inserts the record or merges it into the existing record with the same ID. */
+  upsert(record: NewRecord<T>): Promise<T>;
+  delete(id: string): Promise<void>;
+  /** Deletes every matching record with a single save, and returns how many were deleted. */
+  deleteMany(predicate: (record: T) => boolean): Promise<number>;
+}
+
+export interface Store {
+  customers: Repository<CustomerRecord>;
+  invoices: Repository<InvoiceRecord>;
+  subscriptions: Repository<SubscriptionRecord>;
+  idempotencyKeys: Repository<IdempotencyRecord>;
+  webhookEvents: Repository<WebhookEventRecord>;
+  coupons: Repository<CouponRecord>;
+  couponRedemptions: Repository<CouponRedemptionRecord>;
+  loginCodes: Repository<LoginCodeRecord>;
+  auditLog: Repository<AuditLogRecord>;
+}
+
+export type CollectionName = keyof Store;
@@ -0,0 +1,27 @@
+import { spawnSync } from "child_process";
+import { readdirSync } from "fs";
+import path from "path";
+
+// Node 20's test runner doesn't expand globs (21 and later do), so the test files are found here and passed
+// to it explicitly. Arguments, e.g. `npm test -- --test-name-pattern=coupon`, are passed on to the runner.
+const root = path.resolve(__dirname, "../..");
+const testFiles = readdirSync(path.join(root, "src"), { recursive: true })
+  .map(String)
+  .filter((file) => file.endsWith(".test.ts"))
+  .sort()
+  .map((file) => path.join("src", file));
+
+const result = spawnSync(
+  process.execPath,
+  [
+    "--require",
+    "ts-node/register/transpile-only",
+    "--require",
+    "./src/test/setup.ts",
+    "--test",
+    ...process.argv.slice(2),
+    ...testFiles,
+  ],
+  { cwd: root, stdio: "inherit" },
+);
+process.exit(result.status ?? 1);
@@ -0,0 +1,23 @@
+// Loaded before any test module, so the config parses a complete environment and nothing touches the file store
+process.env.DATA_STORE = "memory";
+process.env.LOG_LEVEL = "error";
+process.env.STRIPE_SECRET_KEY = "sk_test_webhooks";
+process.env.STRIPE_WEBHOOK_SECRET = "whsec_test_webhooks";
+process.env.AUTH_SESSION_SECRET = "test-session-secret-at-least-32-characters";
+process.env.CREDIT_CARD_FEE_PRODUCT_ID = "prod_test_credit_card_fee";
+process.env.ONE_TIME_PRODUCT_ID = "prod_test_one_time";
+// Tests stub `fetch` to capture the codes sent here
+process.env.AUTH_EMAIL_WEBHOOK_URL = "https://hooks.example.test/login-codes";
+
+// Pricing fixtures shared by the quote tests
+process.env.SURCHARGE_MERCHANT_COST_PERCENT = "2.5";
+process.env.TAX_MODE = "rates";
+process.env.TAX_RATES = "US-CA:7.25|CA:5|CA-ON:13";
+process.env.SHIPPING_PRODUCT_ID = "prod_test_shipping";
+process.env.SHIPPING_COST = "1500";
+process.env.SHIPPING_RATES = JSON.stringify([
+  { id: "us_standard", countries: ["US"], amounts: { usd: 1000 }, freeShippingThresholds: { usd: 20000 } },
+  { id: "us_ak_hi_standard", countries: ["US"], states: ["AK", "HI"], amounts: { usd: 3000 } },
+  { id: "nyc_standard", countries: ["US"], postalCodePrefixes: ["100"], amounts: { usd: 800 } },
+  { id: "us_expedited", serviceLevel: "expedited", countries: ["US"], amounts: { usd: 2500 } },
+]);
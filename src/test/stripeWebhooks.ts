@@ -0,0 +1,30 @@
+import type Stripe from "stripe";
+import { env } from "../config";
+import { stripe } from "../lib/stripe";
+
+let eventCount = 0;
+
+/**
+ * A Stripe event fixture wrapping `object`, with a unique ID unless one is given.
+ */
+export const buildEvent = (type: string, object: Record<string, unknown>, id?: string): Stripe.Event =>
+  ({
+    id: id ?? `evt_test_${++eventCount}`,
+    object: "event",
+    api_version: "2024-06-20",
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    type,
+    data: { object },
+  }) as unknown as Stripe.Event;
+
+/**
+ * The body and headers of a webhook delivery for `event`, signed with the configured webhook secret.
+ */
+export const signWebhookEvent = (event: Stripe.Event): { body: string; headers: Record<string, string> } => {
+  const body = JSON.stringify(event);
+  const signature = stripe.webhooks.generateTestHeaderString({ payload: body, secret: env.stripeWebhookSecret! });
+  return { body, headers: { "content-type": "application/json", "stripe-signature": signature } };
+};
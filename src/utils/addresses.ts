@@ -0,0 +1,173 @@
+import { z } from "zod";
+
+const US_STATE_CODES = new Set(
+  (
+    "AL AK AZ AR CA CO CT DE DC FL GA HI ID IL IN IA KS KY LA ME MD MA MI MN MS MO MT NE NV NH NJ NM NY NC ND OH " +
+    "OK OR PA RI SC SD TN TX UT VT VA WA WV WI WY AS GU MP PR VI AA AE AP"
+  ).split(" "),
+);
+
+/**
+ * Postal code formats of the countries clinics are commonly in. Postal codes of other countries
+ * are only trimmed and upper-cased.
+ */
+const POSTAL_CODE_FORMATS: Record<string, { pattern: RegExp; format?: (postalCode: string) => string }> = {
+  US: { pattern: /^\d{5}(-\d{4})?$/ },
+  CA: {
+    pattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z]\d[ABCEGHJ-NPRSTV-Z]\d$/,
+    format: (postalCode) => `${postalCode.slice(0, 3)} ${postalCode.slice(3)}`,
+  },
+  GB: {
+    pattern: /^[A-Z]{1,2}\d[A-Z\d]?\d[A-Z]{2}$/,
+    format: (postalCode) => `${postalCode.slice(0, -3)} ${postalCode.slice(-3)}`,
+  },
+  IE: {
+    pattern: /^[AC-FHKNPRTV-Y]\d{2}[AC-FHKNPRTV-Y\d]{4}$|^D6W[AC-FHKNPRTV-Y\d]{4}$/,
+    format: (postalCode) => `${postalCode.slice(0, 3)} ${postalCode.slice(3)}`,
+  },
+  FR: { pattern: /^\d{5}$/ },
+  DE: { pattern: /^\d{5}$/ },
+  ES: { pattern: /^\d{5}$/ },
+  IT: { pattern: /^\d{5}$/ },
+  AU: { pattern: /^\d{4}$/ },
+  NZ: { pattern: /^\d{4}$/ },
+};
+
+// Postal codes that are compared without their separating spaces
+const COMPACT_POSTAL_CODE_COUNTRIES = new Set(["CA", "GB", "IE"]);
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+/**
+ * Whether the code is an ISO 3166-1 alpha-2 country code.
+ */
+export const isCountryCode = (code: string): boolean =>
+  /^[A-Z]{2}$/.test(code) && code !== "ZZ" && regionNames.of(code) !== code;
+
+const normalizeText = (value: string | undefined): string | undefined => {
+  const trimmed = value?.trim().replace(/\s+/g, " ");
+  return trimmed ? trimmed : undefined;
+};
+
+const normalizePostalCode = (postalCode: string, country: string): string => {
+  const normalized = postalCode.trim().toUpperCase().replace(/\s+/g, " ");
+  if (!COMPACT_POSTAL_CODE_COUNTRIES.has(country)) {
+    return normalized;
+  }
+  const compact = normalized.replace(/ /g, "");
+  const format = POSTAL_CODE_FORMATS[country];
+  return format.pattern.test(compact) && format.format ? format.format(compact) : normalized;
+};
+
+const isValidPostalCode = (postalCode: string, country: string): boolean => {
+  const format = POSTAL_CODE_FORMATS[country];
+  const value = COMPACT_POSTAL_CODE_COUNTRIES.has(country) ? postalCode.replace(/ /g, "") : postalCode;
+  return !format || format.pattern.test(value);
+};
+
+const addressFieldsSchema = z.object({
+  line1: z.string().trim().min(1),
+  line2: z.string().optional(),
+  city: z.string().trim().min(1),
+  state: z.string().optional(),
+  postalCode: z.string().trim().min(1),
+  country: z.string().trim().length(2),
+});
+
+type AddressFields = z.infer<typeof addressFieldsSchema>;
+
+/**
+ * A normalized postal address, as parsed by `addressSchema`. It can be used wherever a tax, surcharge or
+ * clinic address is expected.
+ */
+export interface PostalAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  country: string;
+}
+
+/**
+ * The parts of an address parsed by `addressZoneSchema`.
+ */
+export interface AddressZone {
+  state?: string;
+  postalCode?: string;
+  country: string;
+}
+
+/**
+ * Upper-cases country and state codes, collapses whitespace and formats postal codes the way
+ * they are written in the address's country.
+ */
+const normalizeAddress = <T extends Partial<AddressFields>>(address: T): T => {
+  const country = address.country?.trim().toUpperCase();
+  const state = normalizeText(address.state);
+  return {
+    ...address,
+    line1: normalizeText(address.line1),
+    line2: normalizeText(address.line2),
+    city: normalizeText(address.city),
+    state: state && (country === "US" || state.length <= 3) ? state.toUpperCase() : state,
+    postalCode: address.postalCode && country ? normalizePostalCode(address.postalCode, country) : address.postalCode,
+    country,
+  };
+};
+
+const validateAddress =
+  (options: { requireUsState: boolean }) => (address: Partial<AddressFields>, ctx: z.RefinementCtx) => {
+    const country = address.country ?? "";
+    if (!isCountryCode(country)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["country"], message: `${country} is not a country code` });
+      return;
+    }
+    if (country === "US") {
+      if (address.state === undefined && options.requireUsState) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["state"], message: "State is required for US addresses" });
+      } else if (address.state !== undefined && !US_STATE_CODES.has(address.state)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["state"],
+          message: `${address.state} is not a US state code`,
+        });
+      }
+    }
+    if (address.postalCode && !isValidPostalCode(address.postalCode, country)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["postalCode"],
+        message: `${address.postalCode} is not a valid postal code in ${country}`,
+      });
+    }
+  };
+
+/**
+ * A full postal address, normalized and validated for its country.
+ */
+export const addressSchema = addressFieldsSchema
+  .transform(normalizeAddress)
+  .superRefine(validateAddress({ requireUsState: true }))
+  .transform(
+    (address): PostalAddress => ({
+      line1: address.line1,
+      line2: address.line2,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postalCode,
+      country: address.country,
+    }),
+  );
+
+/**
+ * The parts of an address that determine currency, tax and shipping, e.g. for quotes.
+ */
+export const addressZoneSchema = addressFieldsSchema
+  .pick({ country: true, state: true })
+  .extend({ postalCode: z.string().optional() })
+  .transform(normalizeAddress)
+  .superRefine(validateAddress({ requireUsState: false }))
+  .transform(
+    (address): AddressZone => ({ state: address.state, postalCode: address.postalCode, country: address.country }),
+  );
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeOneTimeBreakdown, percentageToAmount } from "./amounts";
+
+describe("percentageToAmount", () => {
+  it("rounds to the nearest cent", () => {
+    assert.equal(percentageToAmount(1999, 3), 60);
+    assert.equal(percentageToAmount(1950, 2.4), 47);
+    assert.equal(percentageToAmount(5000, 0), 0);
+  });
+});
+
+describe("computeOneTimeBreakdown", () => {
+  it("charges the credit card fee on the discounted subtotal, not on shipping or tax", () => {
+    const breakdown = computeOneTimeBreakdown({
+      currency: "usd",
+      lines: [
+        { unitAmount: 5000, quantity: 2 },
+        { unitAmount: 2500, quantity: 1 },
+      ],
+      couponPercent: 10,
+      appliesCreditCardFee: true,
+      creditCardFeePercent: 3,
+      shippingAmount: 1000,
+      taxAmount: 900,
+    });
+
+    assert.equal(breakdown.baseAmount, 12500);
+    assert.equal(breakdown.discountAmount, 1250);
+    assert.equal(breakdown.subtotalAfterDiscount, 11250);
+    assert.equal(breakdown.creditCardFeeAmount, 338);
+    assert.equal(breakdown.totalAmount, 11250 + 1000 + 338 + 900);
+  });
+
+  it("charges no fee when the surcharge doesn't apply", () => {
+    const breakdown = computeOneTimeBreakdown({ baseAmount: 5000, appliesCreditCardFee: false, shippingAmount: 0 });
+
+    assert.equal(breakdown.creditCardFeeAmount, 0);
+    assert.equal(breakdown.totalAmount, 5000);
+  });
+
+  it("caps an amount-off coupon at the base amount", () => {
+    const breakdown = computeOneTimeBreakdown({
+      baseAmount: 3000,
+      couponAmountOff: 5000,
+      appliesCreditCardFee: true,
+      creditCardFeePercent: 3,
+      shippingAmount: 0,
+    });
+
+    assert.equal(breakdown.discountAmount, 3000);
+    assert.equal(breakdown.creditCardFeeAmount, 0);
+    assert.equal(breakdown.totalAmount, 0);
+  });
+
+  it("takes the amount off in the order currency, and none in a currency the coupon doesn't have", () => {
+    const options = {
+      baseAmount: 5000,
+      couponAmountsOff: { usd: 1000, cad: 1300 },
+      appliesCreditCardFee: false,
+      shippingAmount: 0,
+    };
+
+    assert.equal(computeOneTimeBreakdown({ ...options, currency: "cad" }).discountAmount, 1300);
+    assert.equal(computeOneTimeBreakdown({ ...options, currency: "gbp" }).discountAmount, 0);
+  });
+});
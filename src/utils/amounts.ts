@@ -1,11 +1,19 @@
-import { CREDIT_CARD_FEE_PERCENT, SHIPPING_COST_CENTS, ONE_TIME_BASE_AMOUNT_CENTS } from "../config";
+import { BASE_CURRENCY, CREDIT_CARD_FEE_PERCENT, ONE_TIME_BASE_AMOUNT_CENTS, getShippingCostCents } from "../config";
+
+export interface AmountLine {
+  unitAmount: number;
+  quantity: number;
+}
 
 export interface AmountBreakdown {
+  /** Ordered lines; a single line for the base amount when none are given. */
+  lines: (AmountLine & { amount: number })[];
   baseAmount: number;
   discountAmount: number;
   subtotalAfterDiscount: number;
   shippingAmount: number;
   creditCardFeeAmount: number;
+  taxAmount: number;
   totalAmount: number;
 }
 
@@ -13,15 +21,34 @@ export const percentageToAmount = (amountCents: number, percent: number): number
   return Math.round((amountCents * percent) / 100);
 };
 
+/**
+ * Amounts are in the smallest unit of `currency` (the base currency by default). A coupon's amount off
+ * can be given per currency in `couponAmountsOff`; currencies without an entry get no amount off.
+ * When `lines` are given, the base amount is the sum of each line's unit amount times its quantity.
+ *
+ * The discount comes off the base amount first. The credit card fee is a percentage of the discounted
+ * subtotal, then shipping is added. Tax is calculated separately on the discounted subtotal and shipping
+ * (see `calculateTax`) and added last, so the fee is never charged on tax or shipping.
+ */
 export const computeOneTimeBreakdown = (options: {
+  currency?: string;
   couponPercent?: number;
   couponAmountOff?: number;
+  couponAmountsOff?: Record<string, number>;
   appliesCreditCardFee: boolean;
   shippingAmount?: number;
   baseAmount?: number;
+  lines?: AmountLine[];
+  creditCardFeePercent?: number;
+  taxAmount?: number;
 }): AmountBreakdown => {
-  const baseAmount = options.baseAmount ?? ONE_TIME_BASE_AMOUNT_CENTS;
-  const shippingAmount = options.shippingAmount ?? SHIPPING_COST_CENTS;
+  const currency = options.currency ?? BASE_CURRENCY;
+  const lines = (options.lines ?? [{ unitAmount: options.baseAmount ?? ONE_TIME_BASE_AMOUNT_CENTS, quantity: 1 }]).map(
+    (line) => ({ ...line, amount: line.unitAmount * line.quantity })
+  );
+  const baseAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+  const shippingAmount = options.shippingAmount ?? getShippingCostCents(currency);
+  const couponAmountOff = options.couponAmountsOff ? options.couponAmountsOff[currency] : options.couponAmountOff;
 
   let discountFromPercent = 0;
   if (options.couponPercent) {
@@ -29,25 +56,29 @@ export const computeOneTimeBreakdown = (options: {
   }
 
   const discountAmount =
-    options.couponAmountOff !== undefined
-      ? Math.min(options.couponAmountOff, baseAmount)
+    couponAmountOff !== undefined
+      ? Math.min(couponAmountOff, baseAmount)
       : discountFromPercent;
 
   const subtotalAfterDiscount = Math.max(baseAmount - discountAmount, 0);
 
   const feeBase = subtotalAfterDiscount;
   const creditCardFeeAmount = options.appliesCreditCardFee
-    ? percentageToAmount(feeBase, CREDIT_CARD_FEE_PERCENT)
+    ? percentageToAmount(feeBase, options.creditCardFeePercent ?? CREDIT_CARD_FEE_PERCENT)
     : 0;
 
-  const totalAmount = subtotalAfterDiscount + shippingAmount + creditCardFeeAmount;
+  const taxAmount = options.taxAmount ?? 0;
+
+  const totalAmount = subtotalAfterDiscount + shippingAmount + creditCardFeeAmount + taxAmount;
 
   return {
+    lines,
     baseAmount,
     discountAmount,
     subtotalAfterDiscount,
     shippingAmount,
     creditCardFeeAmount,
+    taxAmount,
     totalAmount
   };
 };
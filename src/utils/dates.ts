@@ -15,3 +15,18 @@ export const isDateWithinNextTwoMonths = (value: string | undefined | null): boo
   return parsedDate >= now && parsedDate <= maxDate;
 };
 
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+};
+
+export const addYears = (date: Date, years: number): Date => {
+  const result = new Date(date);
+  result.setUTCFullYear(result.getUTCFullYear() + years);
+  return result;
+};
+
+export const toUnixTimestamp = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+export const fromUnixTimestamp = (timestamp: number): Date => new Date(timestamp * 1000);
@@ -0,0 +1,26 @@
+import { logger } from "../lib/logger";
+
+/**
+ * Runs a task now and then every `intervalMinutes`, logging failures instead of throwing.
+ * An interval of 0 disables the task. Returns a function that stops it.
+ */
+export const schedulePeriodicTask = (
+  description: string,
+  intervalMinutes: number,
+  task: () => Promise<void>,
+): (() => void) => {
+  if (intervalMinutes === 0) {
+    return () => undefined;
+  }
+
+  const run = () => {
+    task().catch((error) => {
+      logger.error("scheduler.task_failed", { task: description, error });
+    });
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+  run();
+  return () => clearInterval(timer);
+};
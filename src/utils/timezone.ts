@@ -86,3 +86,41 @@ export const inferTimezoneFromAddress = (address: Address): string => {
   return COUNTRY_DEFAULT_TIMEZONES[country] ?? "UTC";
 };
 
+const getTimezoneOffsetMs = (instant: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).formatToParts(instant);
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClockAsUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second")
+  );
+  return wallClockAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/**
+ * Returns the instant midnight starts on the given calendar date (`YYYY-MM-DD`) in the given timezone.
+ * Values that include a time are taken as an exact instant and returned unchanged.
+ */
+export const startOfDayInTimezone = (value: string, timeZone: string): Date => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return new Date(value);
+  }
+
+  const midnightUtc = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Correct twice so days where the offset changes (DST transitions) still land on local midnight
+  const firstGuess = midnightUtc - getTimezoneOffsetMs(new Date(midnightUtc), timeZone);
+  return new Date(midnightUtc - getTimezoneOffsetMs(new Date(firstGuess), timeZone));
+};
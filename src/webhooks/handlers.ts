@@ -0,0 +1,63 @@
+import type { StripeRequestOptionsFactory } from "../lib/stripe";
+import { recordPaidCouponRedemption } from "../services/coupons";
+import { reconcileCreditCardFees } from "../services/feeReconciliation";
+import { recordInvoice, syncCustomer, syncSubscription } from "../services/records";
+import { applySucceededSetupIntent } from "../services/setupIntents";
+import { registerWebhookHandler } from "./registry";
+import type { WebhookEventOfType } from "./registry";
+
+// Stripe calls made while handling an event are keyed on the event, so a redelivery never repeats them
+const requestOptionsForEvent =
+  (eventId: string): StripeRequestOptionsFactory =>
+  (step) => ({ idempotencyKey: `${eventId}:${step}` });
+
+const handleInvoicePaymentFailed = async (event: WebhookEventOfType<"invoice.payment_failed">): Promise<void> => {
+  await recordInvoice(event.data.object);
+};
+
+const handleInvoicePaymentSucceeded = async (event: WebhookEventOfType<"invoice.payment_succeeded">): Promise<void> => {
+  await recordInvoice(event.data.object);
+  await recordPaidCouponRedemption(event.data.object);
+};
+
+const handleSubscriptionEvent = async (
+  event: WebhookEventOfType<
+    "customer.subscription.created" | "customer.subscription.updated" | "customer.subscription.deleted"
+  >,
+): Promise<void> => {
+  await syncSubscription(event.data.object);
+};
+
+const handleCustomerUpdated = async (event: WebhookEventOfType<"customer.updated">): Promise<void> => {
+  await syncCustomer(event.data.object);
+
+  const previousInvoiceSettings = event.data.previous_attributes?.invoice_settings;
+  if (!previousInvoiceSettings || !("default_payment_method" in previousInvoiceSettings)) {
+    return;
+  }
+  await reconcileCreditCardFees(event.data.object.id, requestOptionsForEvent(event.id));
+};
+
+const handlePaymentMethodAttached = async (event: WebhookEventOfType<"payment_method.attached">): Promise<void> => {
+  const customer = event.data.object.customer;
+  if (!customer) {
+    return;
+  }
+  await reconcileCreditCardFees(
+    typeof customer === "string" ? customer : customer.id,
+    requestOptionsForEvent(event.id),
+  );
+};
+
+const handleSetupIntentSucceeded = async (event: WebhookEventOfType<"setup_intent.succeeded">): Promise<void> => {
+  await applySucceededSetupIntent(event.data.object, requestOptionsForEvent(event.id));
+};
+
+registerWebhookHandler("invoice.payment_succeeded", handleInvoicePaymentSucceeded);
+registerWebhookHandler("invoice.payment_failed", handleInvoicePaymentFailed);
+registerWebhookHandler("customer.subscription.created", handleSubscriptionEvent);
+registerWebhookHandler("customer.subscription.updated", handleSubscriptionEvent);
+registerWebhookHandler("customer.subscription.deleted", handleSubscriptionEvent);
+registerWebhookHandler("customer.updated", handleCustomerUpdated);
+registerWebhookHandler("payment_method.attached", handlePaymentMethodAttached);
+registerWebhookHandler("setup_intent.succeeded", handleSetupIntentSucceeded);
@@ -0,0 +1,4 @@
+import "./handlers";
+
+export { processWebhookEvent, registerWebhookHandler, hasWebhookHandler } from "./registry";
+export type { WebhookEventOfType, WebhookHandler, WebhookOutcome } from "./registry";
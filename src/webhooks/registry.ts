@@ -0,0 +1,69 @@
+import Stripe from "stripe";
+import { store } from "../store";
+
+export type WebhookEventOfType<T extends Stripe.Event.Type> = Extract<Stripe.Event, { type: T }>;
+
+export type WebhookHandler<T extends Stripe.Event.Type> = (event: WebhookEventOfType<T>) => Promise<void>;
+
+export type WebhookOutcome = "processed" | "duplicate" | "unhandled";
+
+const handlers = new Map<Stripe.Event.Type, WebhookHandler<Stripe.Event.Type>[]>();
+
+// Events currently being handled in this process, so a redelivery racing the original is not handled twice.
+const inFlightEvents = new Set<string>();
+
+/**
+ * Registers a handler for a Stripe event type. Several handlers may be registered for the same type;
+ * they run one after another in registration order.
+ */
+export const registerWebhookHandler = <T extends Stripe.Event.Type>(type: T, handler: WebhookHandler<T>): void => {
+  const existing = handlers.get(type) ?? [];
+  existing.push(handler as unknown as WebhookHandler<Stripe.Event.Type>);
+  handlers.set(type, existing);
+};
+
+export const hasWebhookHandler = (type: Stripe.Event.Type): boolean => (handlers.get(type)?.length ?? 0) > 0;
+
+/**
+ * Runs the registered handlers for an event at most once per event ID.
+ * Failures are recorded and rethrown so the webhook route can ask Stripe to redeliver the event.
+ */
+export const processWebhookEvent = async (event: Stripe.Event): Promise<WebhookOutcome> => {
+  const eventHandlers = handlers.get(event.type) ?? [];
+  if (eventHandlers.length === 0) {
+    return "unhandled";
+  }
+
+  const existing = await store.webhookEvents.get(event.id);
+  if (existing?.status === "processed" || inFlightEvents.has(event.id)) {
+    return "duplicate";
+  }
+
+  inFlightEvents.add(event.id);
+  try {
+    for (const handler of eventHandlers) {
+      await handler(event);
+    }
+    await store.webhookEvents.upsert({
+      id: event.id,
+      type: event.type,
+      status: "processed",
+      attempts: (existing?.attempts ?? 0) + 1,
+      lastError: null,
+      processedAt: new Date().toISOString(),
+    });
+    return "processed";
+  } catch (error) {
+    await store.webhookEvents.upsert({
+      id: event.id,
+      type: event.type,
+      status: "failed",
+      attempts: (existing?.attempts ?? 0) + 1,
+      lastError: error instanceof Error ? error.message : String(error),
+      processedAt: null,
+    });
+    throw error;
+  } finally {
+    inFlightEvents.delete(event.id);
+  }
+};